@@ -1,11 +1,34 @@
-import { app, BrowserWindow, ipcMain, dialog, shell } from 'electron';
+import { app, BrowserWindow, ipcMain, dialog, shell, safeStorage } from 'electron';
 import * as path from 'path';
 import * as fs from 'fs-extra';
 import * as os from 'os';
 import Store from 'electron-store';
+import type { FileNameSuggestion, ProcessingOptions } from './services/fileProcessor';
+import type { UnwrapMode } from './services/unwrap';
+import type { ConflictPolicy } from './services/conflicts';
+import type { RollbackScope } from './services/journal';
+import type { ReportData, ReportFormat, ReportKind } from './services/reports';
+import { DEFAULT_FILENAME_PATTERNS, FilenamePattern, upgradeFilenamePatterns } from './services/filenamePatterns';
+import { DateRangeMode, DEFAULT_LOCALE_SETTINGS, isLocaleId, LocaleId, LocaleSettings } from './services/locales';
+import type { DiaryEntry } from './services/diaries';
+import { DEFAULT_METADATA_FOLDERS, METADATA_FIELDS, MetadataField } from './services/metadata';
+import { createJobControl, JobControl } from './services/jobControl';
+import { findOrphanedWorkspaces, getDefaultWorkspaceRoot, removeOrphanedWorkspace } from './services/workspace';
+import { findInterruptedJournals, listUndoableJobs, pruneJobHistory, recoverJournal } from './services/journal';
+import { isSameVolume } from './services/diskSpace';
 
 const store = new Store();
 
+const DEFAULT_UNDO_HISTORY_SIZE = 5;
+
+type JobKind = 'zip' | 'date';
+
+// Controls of the jobs currently running, so the renderer can pause or cancel them
+const activeJobs = new Map<JobKind, JobControl>();
+
+// Renames offered by the last preview of each tab; the renderer can only apply one of these
+const offeredSuggestions = new Map<JobKind, { inputPath: string; suggestions: FileNameSuggestion[] }>();
+
 function createWindow(): void {
   const mainWindow = new BrowserWindow({
     height: 800,
@@ -52,16 +75,106 @@ function getDropboxPath(): string {
   return path.join(userProfile, 'Dropbox');
 }
 
+// Extraction happens outside Dropbox so transient files are never synced; empty setting means the OS temp folder
+function getWorkspaceRoot(): string {
+  const settings = store.get('settings', {}) as { workspacePath?: string };
+  return settings.workspacePath || getDefaultWorkspaceRoot();
+}
+
+// Older versions extracted inside the library itself
+function getLegacyWorkspacePath(): string {
+  return path.join(getDropboxPath(), 'Archivos', 'temp');
+}
+
+// Journals live with the app data, not in the library, so they are never synced half-written
+function getJournalPath(): string {
+  return path.join(app.getPath('userData'), 'journals');
+}
+
+// How many finished jobs stay undoable; their backups are kept until they fall out of the history
+function getUndoHistorySize(): number {
+  const settings = store.get('settings', {}) as { undoHistorySize?: number };
+  return settings.undoHistorySize ?? DEFAULT_UNDO_HISTORY_SIZE;
+}
+
+async function pruneHistory(): Promise<void> {
+  try {
+    await pruneJobHistory(getJournalPath(), getUndoHistorySize());
+  } catch (error) {
+    console.warn('Could not prune the undo history:', error);
+  }
+}
+
+function getFilenamePatterns(): FilenamePattern[] {
+  const settings = store.get('settings', {}) as { filenamePatterns?: FilenamePattern[] };
+  return Array.isArray(settings.filenamePatterns) ? upgradeFilenamePatterns(settings.filenamePatterns) : DEFAULT_FILENAME_PATTERNS;
+}
+
+function getDiaries(): DiaryEntry[] {
+  const settings = store.get('settings', {}) as { diaries?: DiaryEntry[] };
+  return Array.isArray(settings.diaries) ? settings.diaries : [];
+}
+
+function getMetadataFolders(): MetadataField[] {
+  const settings = store.get('settings', {}) as { metadataFolders?: MetadataField[] };
+  return Array.isArray(settings.metadataFolders)
+    ? settings.metadataFolders.filter(field => METADATA_FIELDS.includes(field))
+    : DEFAULT_METADATA_FOLDERS;
+}
+
+function getLocaleSettings(): LocaleSettings {
+  const settings = store.get('settings', {}) as { parseLocales?: LocaleId[]; outputLocale?: LocaleId; dateRangeMode?: DateRangeMode };
+  return {
+    parse: Array.isArray(settings.parseLocales) ? settings.parseLocales.filter(isLocaleId) : DEFAULT_LOCALE_SETTINGS.parse,
+    output: isLocaleId(settings.outputLocale) ? settings.outputLocale : DEFAULT_LOCALE_SETTINGS.output,
+    ranges: settings.dateRangeMode === 'first-day' ? 'first-day' : DEFAULT_LOCALE_SETTINGS.ranges
+  };
+}
+
+function getRollbackScope(): RollbackScope {
+  const settings = store.get('settings', {}) as { rollbackScope?: RollbackScope };
+  return settings.rollbackScope === 'batch' ? 'batch' : 'archive';
+}
+
 // Helper function to get Downloads path
 function getDownloadsPath(): string {
   return app.getPath('downloads');
 }
 
+// Saved archive passwords are persisted only in their safeStorage-encrypted form
+function getSavedPasswords(): string[] {
+  if (!safeStorage.isEncryptionAvailable()) {
+    return [];
+  }
+
+  const encrypted = store.get('savedPasswords', []) as string[];
+  const passwords: string[] = [];
+
+  for (const value of encrypted) {
+    try {
+      passwords.push(safeStorage.decryptString(Buffer.from(value, 'base64')));
+    } catch (error) {
+      console.warn('Could not decrypt a saved password, skipping it:', error);
+    }
+  }
+
+  return passwords;
+}
+
+function setSavedPasswords(passwords: string[]): void {
+  const encrypted = passwords.map(password => safeStorage.encryptString(password).toString('base64'));
+  store.set('savedPasswords', encrypted);
+}
+
+function maskPassword(password: string): string {
+  return `${'•'.repeat(Math.min(password.length, 12))} (${password.length} caracteres)`;
+}
+
 // IPC handlers for file operations
-ipcMain.handle('select-folder', async () => {
+ipcMain.handle('select-folder', async (_event, title: string = 'Seleccionar carpeta de archivos') => {
   const result = await dialog.showOpenDialog({
-    properties: ['openDirectory'],
-    title: 'Seleccionar carpeta de archivos'
+    properties: ['openDirectory', 'createDirectory'],
+    title
   });
   
   return result;
@@ -76,12 +189,30 @@ ipcMain.handle('get-dropbox-path', () => {
 });
 
 ipcMain.handle('get-settings', () => {
-  return store.get('settings', {
+  const settings = store.get('settings', {
     dropboxPath: '',
     lastInputPath: '',
     autoOpen: false,
-    useDateFolder: false
-  });
+    useDateFolder: false,
+    extractNested: false,
+    maxNestedDepth: 3,
+    testArchives: true,
+    // 0 lets the processor pick a worker count from the CPU count
+    concurrency: 0,
+    unwrapMode: 'off',
+    // Empty means a folder inside the OS temp directory
+    workspacePath: '',
+    rollbackScope: 'archive',
+    undoHistorySize: DEFAULT_UNDO_HISTORY_SIZE,
+    filenamePatterns: DEFAULT_FILENAME_PATTERNS,
+    parseLocales: DEFAULT_LOCALE_SETTINGS.parse,
+    outputLocale: DEFAULT_LOCALE_SETTINGS.output,
+    dateRangeMode: DEFAULT_LOCALE_SETTINGS.ranges,
+    metadataFolders: DEFAULT_METADATA_FOLDERS,
+    diaries: []
+  }) as Record<string, unknown>;
+  // Outdated default rules are shown (and saved back) already upgraded
+  return { ...settings, filenamePatterns: getFilenamePatterns() };
 });
 
 ipcMain.handle('save-settings', (event, settings) => {
@@ -89,52 +220,311 @@ ipcMain.handle('save-settings', (event, settings) => {
   return true;
 });
 
-ipcMain.handle('preview-files', async (event, inputPath: string, useDateFolder: boolean = false) => {
+ipcMain.handle('preview-files', async (event, inputPath: string, useDateFolder: boolean = false, unwrapMode: UnwrapMode = 'off') => {
   try {
     const { previewFiles } = await import('./services/fileProcessor');
-    return await previewFiles(inputPath, useDateFolder);
+    const result = await previewFiles(inputPath, useDateFolder, unwrapMode, getFilenamePatterns(), getLocaleSettings(), getDiaries(), getMetadataFolders());
+    offeredSuggestions.set('zip', { inputPath, suggestions: result.suggestions });
+    return result;
   } catch (error) {
     console.error('Error previewing files:', error);
     return { success: false, error: error instanceof Error ? error.message : 'Error desconocido' };
   }
 });
 
-ipcMain.handle('start-zip-processing', async (event, inputPath: string, selectedFiles: string[], deleteOriginals: boolean, useDateFolder: boolean = false) => {
+ipcMain.handle('start-zip-processing', async (event, inputPath: string, selectedFiles: string[], options: Partial<ProcessingOptions> = {}) => {
   try {
-    // Import the processing logic
-    const { processFiles } = await import('./services/fileProcessor');
-    
-    return await processFiles(inputPath, selectedFiles, deleteOriginals, useDateFolder, (progress) => {
-      event.sender.send('zip-processing-progress', progress);
-    });
+    if (activeJobs.has('zip')) {
+      return { success: false, error: 'Ya hay un procesamiento en curso' };
+    }
+
+    // Claimed before the first await so a second call can't pass the check above meanwhile
+    const control = createJobControl();
+    activeJobs.set('zip', control);
+    try {
+      // Import the processing logic
+      const { processFiles, DEFAULT_MAX_NESTED_DEPTH, DEFAULT_CONCURRENCY } = await import('./services/fileProcessor');
+      const processingOptions: ProcessingOptions = {
+        deleteOriginals: options.deleteOriginals ?? false,
+        useDateFolder: options.useDateFolder ?? false,
+        extractNested: options.extractNested ?? false,
+        maxNestedDepth: options.maxNestedDepth ?? DEFAULT_MAX_NESTED_DEPTH,
+        testArchives: options.testArchives ?? true,
+        concurrency: options.concurrency && options.concurrency > 0 ? options.concurrency : DEFAULT_CONCURRENCY,
+        unwrapMode: options.unwrapMode ?? 'off',
+        conflictPolicy: options.conflictPolicy ?? 'overwrite',
+        duplicatePolicy: options.duplicatePolicy ?? 'skip',
+        workspaceRoot: getWorkspaceRoot(),
+        journalDir: getJournalPath(),
+        rollbackScope: getRollbackScope(),
+        filenamePatterns: getFilenamePatterns(),
+        locales: getLocaleSettings(),
+        diaries: getDiaries(),
+        metadataFolders: getMetadataFolders(),
+        passwords: options.passwords ?? {},
+        knownPasswords: getSavedPasswords()
+      };
+
+      return await processFiles(inputPath, selectedFiles, processingOptions, (progress) => {
+        event.sender.send('zip-processing-progress', progress);
+      }, control);
+    } finally {
+      activeJobs.delete('zip');
+      await pruneHistory();
+    }
   } catch (error) {
     console.error('Error processing files:', error);
     return { success: false, error: error instanceof Error ? error.message : 'Error desconocido' };
   }
 });
 
+ipcMain.handle('get-workspace-info', async (_event, workspacePath: string = '') => {
+  const root = workspacePath || getDefaultWorkspaceRoot();
+  try {
+    return { path: root, sameVolume: await isSameVolume(root, path.join(getDropboxPath(), 'Archivos')) };
+  } catch (error) {
+    console.warn('Could not compare workspace and Dropbox volumes:', error);
+    return { path: root, sameVolume: null };
+  }
+});
+
+ipcMain.handle('find-orphaned-workspaces', async () => {
+  try {
+    return { success: true, items: await findOrphanedWorkspaces(getWorkspaceRoot(), getLegacyWorkspacePath()) };
+  } catch (error) {
+    console.error('Error looking for orphaned workspaces:', error);
+    return { success: false, items: [], error: error instanceof Error ? error.message : 'Error desconocido' };
+  }
+});
+
+ipcMain.handle('clean-orphaned-workspace', async (_event, id: string) => {
+  if (activeJobs.has('zip')) {
+    return { success: false, error: 'No se puede limpiar mientras hay un procesamiento en curso' };
+  }
+
+  try {
+    // Only folders found by the scan can be removed, never an arbitrary path from the renderer
+    const orphans = await findOrphanedWorkspaces(getWorkspaceRoot(), getLegacyWorkspacePath());
+    const orphan = orphans.find(item => item.id === id);
+    if (!orphan) {
+      return { success: false, error: 'El espacio de trabajo ya no existe' };
+    }
+    await removeOrphanedWorkspace(orphan);
+    return { success: true };
+  } catch (error) {
+    console.error('Error cleaning orphaned workspace:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Error desconocido' };
+  }
+});
+
+ipcMain.handle('find-interrupted-journals', async () => {
+  try {
+    return { success: true, items: await findInterruptedJournals(getJournalPath()) };
+  } catch (error) {
+    console.error('Error looking for interrupted journals:', error);
+    return { success: false, items: [], error: error instanceof Error ? error.message : 'Error desconocido' };
+  }
+});
+
+ipcMain.handle('recover-journal', async (_event, id: string, action: 'rollback' | 'keep') => {
+  if (activeJobs.size > 0) {
+    return { success: false, error: 'No se puede recuperar mientras hay una operación en curso' };
+  }
+
+  try {
+    const failures = await recoverJournal(getJournalPath(), id, action === 'rollback' ? 'rollback' : 'keep');
+    return { success: failures.length === 0, errors: failures };
+  } catch (error) {
+    console.error('Error recovering journal:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Error desconocido' };
+  }
+});
+
+ipcMain.handle('list-undoable-jobs', async (_event, kind?: JobKind) => {
+  try {
+    const jobs = await listUndoableJobs(getJournalPath());
+    return { success: true, items: kind ? jobs.filter(job => job.kind === kind) : jobs };
+  } catch (error) {
+    console.error('Error listing undoable jobs:', error);
+    return { success: false, items: [], error: error instanceof Error ? error.message : 'Error desconocido' };
+  }
+});
+
+ipcMain.handle('undo-job', async (_event, id: string) => {
+  if (activeJobs.size > 0) {
+    return { success: false, error: 'No se puede deshacer mientras hay una operación en curso' };
+  }
+
+  try {
+    const { undoProcessing } = await import('./services/fileProcessor');
+    const outcome = await undoProcessing(getJournalPath(), id);
+    return { success: outcome.failures.length === 0, units: outcome.units, errors: outcome.failures };
+  } catch (error) {
+    console.error('Error undoing job:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Error desconocido' };
+  }
+});
+
+ipcMain.handle('get-default-filename-patterns', () => DEFAULT_FILENAME_PATTERNS);
+
+ipcMain.handle('test-filename-patterns', async (_event, inputPath: string, patterns: FilenamePattern[]) => {
+  try {
+    const { testFilenamePatterns } = await import('./services/fileProcessor');
+    return await testFilenamePatterns(inputPath, patterns, getLocaleSettings(), getDiaries(), getMetadataFolders());
+  } catch (error) {
+    console.error('Error testing filename patterns:', error);
+    return { success: false, items: [], patternErrors: {}, error: error instanceof Error ? error.message : 'Error desconocido' };
+  }
+});
+
+ipcMain.handle('export-report', async (_event, kind: ReportKind, data: ReportData, inputPath: string, format: ReportFormat) => {
+  try {
+    const { buildReport, writeReport } = await import('./services/reports');
+    const stamp = new Date().toISOString().slice(0, 19).replace(/[T:]/g, '-');
+    const result = await dialog.showSaveDialog({
+      title: 'Exportar informe',
+      defaultPath: path.join(getDownloadsPath(), `archidrop-${kind}-${stamp}.${format}`),
+      filters: [{ name: format.toUpperCase(), extensions: [format] }]
+    });
+    if (result.canceled || !result.filePath) {
+      return { success: false, canceled: true };
+    }
+
+    await writeReport(result.filePath, buildReport(kind, data, inputPath), format);
+    return { success: true, filePath: result.filePath };
+  } catch (error) {
+    console.error('Error exporting report:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Error desconocido' };
+  }
+});
+
+ipcMain.handle('list-saved-passwords', () => {
+  return {
+    available: safeStorage.isEncryptionAvailable(),
+    items: getSavedPasswords().map((password, index) => ({ index, masked: maskPassword(password) }))
+  };
+});
+
+ipcMain.handle('add-saved-password', (_event, password: string) => {
+  try {
+    if (!password) {
+      return { success: false, error: 'La contraseña no puede estar vacía' };
+    }
+
+    if (!safeStorage.isEncryptionAvailable()) {
+      return { success: false, error: 'El sistema no ofrece almacenamiento cifrado para guardar contraseñas' };
+    }
+
+    const passwords = getSavedPasswords();
+    if (!passwords.includes(password)) {
+      setSavedPasswords([...passwords, password]);
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error saving password:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Error desconocido' };
+  }
+});
+
+ipcMain.handle('remove-saved-password', (_event, index: number) => {
+  try {
+    const passwords = getSavedPasswords();
+    passwords.splice(index, 1);
+    setSavedPasswords(passwords);
+    return { success: true };
+  } catch (error) {
+    console.error('Error removing password:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Error desconocido' };
+  }
+});
+
 ipcMain.handle('preview-date-files', async (event, inputPath: string) => {
   try {
     const { previewDateFiles } = await import('./services/fileProcessor');
-    return await previewDateFiles(inputPath);
+    const result = await previewDateFiles(inputPath, getLocaleSettings());
+    offeredSuggestions.set('date', { inputPath, suggestions: result.suggestions });
+    return result;
   } catch (error) {
     console.error('Error previewing date files:', error);
     return { success: false, error: error instanceof Error ? error.message : 'Error desconocido' };
   }
 });
 
-ipcMain.handle('start-date-processing', async (event, inputPath: string, selectedFiles: string[], operation: 'move' | 'copy' = 'move') => {
+ipcMain.handle('apply-file-name-suggestion', async (_event, filePath: string, suggestedName: string) => {
+  if (activeJobs.size > 0) {
+    return { success: false, error: 'No se puede renombrar mientras hay una operación en curso' };
+  }
+
+  // Previews only look at the top of the input folder, so an offered file is always directly inside it
+  const offer = Array.from(offeredSuggestions.values()).find(({ inputPath, suggestions }) =>
+    path.dirname(path.resolve(filePath)) === path.resolve(inputPath) &&
+    suggestions.some(suggestion => suggestion.filePath === filePath && suggestion.suggestedName === suggestedName)
+  );
+  if (!offer) {
+    return { success: false, error: 'Ese cambio de nombre no se ofreció en la última vista previa; vuelve a generarla' };
+  }
+
   try {
-    const { organizeFilesByDate } = await import('./services/fileProcessor');
-    return await organizeFilesByDate(inputPath, selectedFiles, operation, (progress) => {
-      event.sender.send('date-processing-progress', progress);
-    });
+    const { applyFileNameSuggestion } = await import('./services/fileProcessor');
+    const renamedPath = await applyFileNameSuggestion(filePath, suggestedName);
+    offer.suggestions = offer.suggestions.filter(suggestion => suggestion.filePath !== filePath);
+    return { success: true, filePath: renamedPath };
+  } catch (error) {
+    console.error('Error applying file name suggestion:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Error desconocido' };
+  }
+});
+
+ipcMain.handle('start-date-processing', async (event, inputPath: string, selectedFiles: string[], operation: 'move' | 'copy' = 'move', conflictPolicy: ConflictPolicy = 'overwrite') => {
+  try {
+    if (activeJobs.has('date')) {
+      return { success: false, error: 'Ya hay una operación en curso' };
+    }
+
+    // Claimed before the first await so a second call can't pass the check above meanwhile
+    const control = createJobControl();
+    activeJobs.set('date', control);
+    try {
+      const { organizeFilesByDate } = await import('./services/fileProcessor');
+      const dateOptions = {
+        mode: operation,
+        conflictPolicy,
+        journalDir: getJournalPath(),
+        rollbackScope: getRollbackScope(),
+        locales: getLocaleSettings()
+      };
+      return await organizeFilesByDate(inputPath, selectedFiles, dateOptions, (progress) => {
+        event.sender.send('date-processing-progress', progress);
+      }, control);
+    } finally {
+      activeJobs.delete('date');
+      await pruneHistory();
+    }
   } catch (error) {
     console.error('Error organizing files by date:', error);
     return { success: false, error: error instanceof Error ? error.message : 'Error desconocido' };
   }
 });
 
+ipcMain.handle('cancel-processing', (_event, job: JobKind) => {
+  const control = activeJobs.get(job);
+  control?.cancel();
+  return { success: Boolean(control) };
+});
+
+ipcMain.handle('pause-processing', (_event, job: JobKind) => {
+  const control = activeJobs.get(job);
+  control?.pause();
+  return { success: Boolean(control) };
+});
+
+ipcMain.handle('resume-processing', (_event, job: JobKind) => {
+  const control = activeJobs.get(job);
+  control?.resume();
+  return { success: Boolean(control) };
+});
+
 ipcMain.handle('open-path', async (_event, targetPath: string) => {
   try {
     if (!targetPath) {
@@ -1,21 +1,41 @@
 import { contextBridge, ipcRenderer } from 'electron';
+import type { ReportData, ReportFormat, ReportKind } from './services/reports';
 
 // Expose protected methods that allow the renderer process to use
 // the ipcRenderer without exposing the entire object
 contextBridge.exposeInMainWorld('electronAPI', {
-  selectFolder: () => ipcRenderer.invoke('select-folder'),
+  selectFolder: (title?: string) => ipcRenderer.invoke('select-folder', title),
   getDownloadsPath: () => ipcRenderer.invoke('get-downloads-path'),
   getDropboxPath: () => ipcRenderer.invoke('get-dropbox-path'),
   getSettings: () => ipcRenderer.invoke('get-settings'),
   saveSettings: (settings: any) => ipcRenderer.invoke('save-settings', settings),
-  previewFiles: (inputPath: string, useDateFolder: boolean = false) =>
-    ipcRenderer.invoke('preview-files', inputPath, useDateFolder),
-  startZipProcessing: (inputPath: string, selectedFiles: string[], deleteOriginals: boolean, useDateFolder: boolean = false) => 
-    ipcRenderer.invoke('start-zip-processing', inputPath, selectedFiles, deleteOriginals, useDateFolder),
+  previewFiles: (inputPath: string, useDateFolder: boolean = false, unwrapMode: string = 'off') =>
+    ipcRenderer.invoke('preview-files', inputPath, useDateFolder, unwrapMode),
+  startZipProcessing: (inputPath: string, selectedFiles: string[], options: any) => 
+    ipcRenderer.invoke('start-zip-processing', inputPath, selectedFiles, options),
   previewDateFiles: (inputPath: string) => ipcRenderer.invoke('preview-date-files', inputPath),
-  startDateProcessing: (inputPath: string, selectedFiles: string[], operation: 'move' | 'copy') =>
-    ipcRenderer.invoke('start-date-processing', inputPath, selectedFiles, operation),
+  applyFileNameSuggestion: (filePath: string, suggestedName: string) =>
+    ipcRenderer.invoke('apply-file-name-suggestion', filePath, suggestedName),
+  startDateProcessing: (inputPath: string, selectedFiles: string[], operation: 'move' | 'copy', conflictPolicy: string = 'overwrite') =>
+    ipcRenderer.invoke('start-date-processing', inputPath, selectedFiles, operation, conflictPolicy),
+  cancelProcessing: (job: 'zip' | 'date') => ipcRenderer.invoke('cancel-processing', job),
+  pauseProcessing: (job: 'zip' | 'date') => ipcRenderer.invoke('pause-processing', job),
+  resumeProcessing: (job: 'zip' | 'date') => ipcRenderer.invoke('resume-processing', job),
   openPath: (targetPath: string) => ipcRenderer.invoke('open-path', targetPath),
+  listSavedPasswords: () => ipcRenderer.invoke('list-saved-passwords'),
+  addSavedPassword: (password: string) => ipcRenderer.invoke('add-saved-password', password),
+  removeSavedPassword: (index: number) => ipcRenderer.invoke('remove-saved-password', index),
+  getWorkspaceInfo: (workspacePath: string) => ipcRenderer.invoke('get-workspace-info', workspacePath),
+  findOrphanedWorkspaces: () => ipcRenderer.invoke('find-orphaned-workspaces'),
+  cleanOrphanedWorkspace: (id: string) => ipcRenderer.invoke('clean-orphaned-workspace', id),
+  findInterruptedJournals: () => ipcRenderer.invoke('find-interrupted-journals'),
+  recoverJournal: (id: string, action: 'rollback' | 'keep') => ipcRenderer.invoke('recover-journal', id, action),
+  listUndoableJobs: (kind?: 'zip' | 'date') => ipcRenderer.invoke('list-undoable-jobs', kind),
+  undoJob: (id: string) => ipcRenderer.invoke('undo-job', id),
+  testFilenamePatterns: (inputPath: string, patterns: any[]) => ipcRenderer.invoke('test-filename-patterns', inputPath, patterns),
+  getDefaultFilenamePatterns: () => ipcRenderer.invoke('get-default-filename-patterns'),
+  exportReport: (kind: ReportKind, data: ReportData, inputPath: string, format: ReportFormat) =>
+    ipcRenderer.invoke('export-report', kind, data, inputPath, format),
   
   // Listen for processing progress updates
   onZipProcessingProgress: (callback: (progress: any) => void) => {
@@ -6,6 +6,32 @@ class ArchidropApp {
   private zipInputPath = '';
   private zipIsProcessing = false;
   private zipUseDateFolder = false;
+  private zipExtractNested = false;
+  private zipMaxNestedDepth = 3;
+  private zipTestArchives = true;
+  private zipConcurrency = 0;
+  private zipUnwrapMode: 'off' | 'single' | 'recursive' = 'off';
+  private zipActiveArchives = new Map<string, any>();
+  private zipFittingFiles: string[] | null = null;
+  private pausedJobs = new Set<'zip' | 'date'>();
+  private workspacePath = '';
+  // Workspace chosen in the settings dialog, applied on save
+  private pendingWorkspacePath = '';
+  private rollbackScope: 'archive' | 'batch' = 'archive';
+  private undoHistorySize = 5;
+  private filenamePatterns: any[] = [];
+  // Rules applied in the settings dialog, saved with it
+  private pendingFilenamePatterns: any[] = [];
+  // Rules being edited in the rule editor
+  private editingPatterns: any[] = [];
+  private patternTestTimer: number | null = null;
+  private diaries: any[] = [];
+  private pendingDiaries: any[] = [];
+  private editingDiaries: any[] = [];
+  // Last preview and result of each tab, kept for the export buttons
+  private reports = new Map<string, { data: any; inputPath: string }>();
+  // Archives to leave selected after the next preview, when resuming an interrupted job
+  private zipPreselect: string[] | null = null;
   private dateInputPath = '';
   private dateIsProcessing = false;
   private dateOperation: 'move' | 'copy' = 'move';
@@ -20,8 +46,12 @@ class ArchidropApp {
     this.initializeTabs();
     this.initializeZipTab();
     this.initializeDateTab();
-    void this.loadSettings();
+    void this.loadSettings()
+      .then(() => this.checkInterruptedJournals())
+      .then(() => this.checkOrphanedWorkspaces())
+      .then(() => Promise.all([this.renderJobHistory('zip'), this.renderJobHistory('date')]));
     this.setupProgressListeners();
+    this.initializeReportExport();
   }
 
   private getElement(id: string): HTMLElement {
@@ -79,11 +109,31 @@ class ArchidropApp {
       void this.startZipProcessing();
     });
 
+    this.getElement('zip-pause-btn').addEventListener('click', () => {
+      void this.toggleJobPause('zip');
+    });
+
+    this.getElement('zip-cancel-btn').addEventListener('click', () => {
+      void this.cancelJob('zip');
+    });
+
     this.getElement('settings-btn').addEventListener('click', () => this.showSettings());
     this.getElement('settings-cancel').addEventListener('click', () => this.hideSettings());
     this.getElement('settings-save').addEventListener('click', () => {
       void this.saveSettings();
     });
+    this.getElement('saved-password-add-btn').addEventListener('click', () => {
+      void this.addSavedPassword();
+    });
+    this.getElement('workspace-path-select-btn').addEventListener('click', () => {
+      void this.selectWorkspaceFolder();
+    });
+    this.getElement('workspace-path-reset-btn').addEventListener('click', () => {
+      this.pendingWorkspacePath = '';
+      void this.renderWorkspaceSetting();
+    });
+    this.initializePatternEditor();
+    this.initializeDiaryEditor();
 
     this.updateZipProcessButton();
   }
@@ -97,6 +147,14 @@ class ArchidropApp {
       void this.startDateProcessing();
     });
 
+    this.getElement('date-pause-btn').addEventListener('click', () => {
+      void this.toggleJobPause('date');
+    });
+
+    this.getElement('date-cancel-btn').addEventListener('click', () => {
+      void this.cancelJob('date');
+    });
+
     this.getElement('date-operation-switch').addEventListener('click', () => {
       this.dateOperation = this.dateOperation === 'copy' ? 'move' : 'copy';
       this.updateDateOperationSwitch();
@@ -123,6 +181,35 @@ class ArchidropApp {
       (this.getElement('auto-open-setting') as HTMLInputElement).checked = this.autoOpen;
       this.zipUseDateFolder = settings.useDateFolder || false;
       (this.getElement('use-date-folder-setting') as HTMLInputElement).checked = this.zipUseDateFolder;
+      this.zipExtractNested = settings.extractNested || false;
+      (this.getElement('extract-nested-setting') as HTMLInputElement).checked = this.zipExtractNested;
+      this.zipMaxNestedDepth = settings.maxNestedDepth || 3;
+      (this.getElement('nested-depth-setting') as HTMLInputElement).value = this.zipMaxNestedDepth.toString();
+      this.zipTestArchives = settings.testArchives !== false;
+      (this.getElement('test-archives-setting') as HTMLInputElement).checked = this.zipTestArchives;
+      this.zipConcurrency = settings.concurrency || 0;
+      (this.getElement('concurrency-setting') as HTMLInputElement).value = this.zipConcurrency.toString();
+      this.zipUnwrapMode = settings.unwrapMode || 'off';
+      (this.getElement('unwrap-mode-setting') as HTMLSelectElement).value = this.zipUnwrapMode;
+      this.workspacePath = settings.workspacePath || '';
+      this.rollbackScope = settings.rollbackScope === 'batch' ? 'batch' : 'archive';
+      (this.getElement('rollback-scope-setting') as HTMLSelectElement).value = this.rollbackScope;
+      this.filenamePatterns = Array.isArray(settings.filenamePatterns)
+        ? settings.filenamePatterns
+        : await this.electronAPI.getDefaultFilenamePatterns();
+      this.diaries = Array.isArray(settings.diaries) ? settings.diaries : [];
+      this.undoHistorySize = settings.undoHistorySize ?? 5;
+      (this.getElement('undo-history-setting') as HTMLInputElement).value = this.undoHistorySize.toString();
+      const parseLocales: string[] = Array.isArray(settings.parseLocales) ? settings.parseLocales : ['es', 'pt-BR', 'en', 'ca'];
+      document.querySelectorAll<HTMLInputElement>('.parse-locale-setting').forEach(checkbox => {
+        checkbox.checked = parseLocales.includes(checkbox.value);
+      });
+      (this.getElement('output-locale-setting') as HTMLSelectElement).value = settings.outputLocale || 'es';
+      (this.getElement('date-range-setting') as HTMLSelectElement).value = settings.dateRangeMode === 'first-day' ? 'first-day' : 'range';
+      const metadataFolders: string[] = Array.isArray(settings.metadataFolders) ? settings.metadataFolders : ['edition', 'supplement'];
+      document.querySelectorAll<HTMLInputElement>('.metadata-folder-setting').forEach(checkbox => {
+        checkbox.checked = metadataFolders.includes(checkbox.value);
+      });
 
       this.updateZipProcessButton();
       this.updateDateProcessButton();
@@ -131,6 +218,35 @@ class ArchidropApp {
     }
   }
 
+  private initializeReportExport(): void {
+    document.querySelectorAll<HTMLButtonElement>('.report-export-btn').forEach(button => {
+      button.addEventListener('click', () => {
+        void this.exportReport(button.dataset.report || '', button.dataset.format as 'csv' | 'json' | 'html');
+      });
+    });
+  }
+
+  private async exportReport(kind: string, format: 'csv' | 'json' | 'html'): Promise<void> {
+    const report = this.reports.get(kind);
+    if (!report) {
+      return;
+    }
+
+    try {
+      const result = await this.electronAPI.exportReport(kind, report.data, report.inputPath, format);
+      if (!result.success && !result.canceled) {
+        const message = `No se pudo exportar el informe: ${result.error || 'Error desconocido'}`;
+        if (kind.startsWith('zip')) {
+          this.showZipError(message);
+        } else {
+          this.showDateError(message);
+        }
+      }
+    } catch (error) {
+      console.error('Error exporting report:', error);
+    }
+  }
+
   private setupProgressListeners(): void {
     this.electronAPI.onZipProcessingProgress((progress: any) => {
       this.updateZipProgress(progress);
@@ -186,7 +302,7 @@ class ArchidropApp {
 
   private updateZipProcessButton(): void {
     const processBtn = this.getElement('zip-process-btn') as HTMLButtonElement;
-    const checkboxes = document.querySelectorAll('.zip-file-checkbox') as NodeListOf<HTMLInputElement>;
+    const checkboxes = document.querySelectorAll('.zip-file-checkbox:not(:disabled)') as NodeListOf<HTMLInputElement>;
     const hasSelectedFiles = Array.from(checkboxes).some(cb => cb.checked);
     const canProcess = !this.zipIsProcessing && Boolean(this.zipInputPath) && checkboxes.length > 0 && hasSelectedFiles;
     processBtn.disabled = !canProcess;
@@ -198,7 +314,7 @@ class ArchidropApp {
     }
 
     try {
-      const result = await this.electronAPI.previewFiles(this.zipInputPath, this.zipUseDateFolder);
+      const result = await this.electronAPI.previewFiles(this.zipInputPath, this.zipUseDateFolder, this.zipUnwrapMode);
       if (result.success) {
         this.showZipPreviewResults(result);
       } else {
@@ -211,6 +327,7 @@ class ArchidropApp {
   }
 
   private showZipPreviewResults(result: any): void {
+    this.reports.set('zip-preview', { data: result, inputPath: this.zipInputPath });
     const previewCard = this.getElement('zip-preview-card');
     const previewContent = this.getElement('zip-preview-content');
     const previewCount = this.getElement('zip-preview-count');
@@ -220,18 +337,132 @@ class ArchidropApp {
 
     let html = '';
 
+    const diskSpace = result.diskSpace;
+    this.zipFittingFiles = diskSpace && !diskSpace.fits ? diskSpace.fitting : null;
+    if (diskSpace && !diskSpace.fits) {
+      html += `<div class="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          <div class="font-medium">💾 Espacio insuficiente en disco</div>
+          <div class="mt-1">
+            Se necesitan ${diskSpace.estimated ? 'al menos ' : 'unos '}${this.formatBytes(diskSpace.required)}
+            y hay ${this.formatBytes(diskSpace.available)} disponibles. Caben ${diskSpace.fitting.length} de ${result.processableFiles} archivos.
+          </div>
+          <button id="zip-fit-only-btn" type="button" class="mt-2 text-sm font-medium text-red-800 underline hover:text-red-900">
+            Seleccionar solo lo que cabe
+          </button>
+        </div>`;
+    }
+
     if (result.items.length > 0) {
+      // Edition, supplement and issue columns appear only when some name has them
+      const showMetadata = result.items.some((item: any) =>
+        item.parsedInfo && (item.parsedInfo.edition || item.parsedInfo.supplement || item.parsedInfo.issue));
       html += '<div class="space-y-3">';
       result.items.forEach((item: any, index: number) => {
+        if (item.corrupt) {
+          html += `<div class="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <div class="flex items-start space-x-3">
+            <input type="checkbox" id="zip-file-${index}" data-filename="${item.fileName}" disabled
+                   class="zip-file-checkbox mt-1 rounded border-gray-300 text-blue-600 focus:ring-blue-500">
+            <div class="flex-1">
+              <label for="zip-file-${index}" class="font-medium text-red-800">${item.fileName}</label>
+              <span class="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">💥 Dañado</span>
+              <div class="text-sm text-red-700 mt-1">
+                ${item.reason || 'El archivo está dañado'}
+              </div>
+            </div>
+          </div>
+        </div>`;
+          return;
+        }
+
+        if (!item.willProcess) {
+          html += `<div class="p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+          <div class="flex items-start space-x-3">
+            <input type="checkbox" id="zip-file-${index}" data-filename="${item.fileName}" disabled
+                   class="zip-file-checkbox mt-1 rounded border-gray-300 text-blue-600 focus:ring-blue-500">
+            <div class="flex-1">
+              <label for="zip-file-${index}" class="font-medium text-yellow-800">${item.fileName}</label>
+              <div class="text-sm text-yellow-700 mt-1">
+                ⚠️ ${item.reason || 'No se puede procesar'}
+              </div>
+            </div>
+          </div>
+        </div>`;
+          return;
+        }
+
+        const volumesHtml = item.volumes && item.volumes.length > 1
+          ? `<div class="text-xs text-gray-500 mt-1" title="${item.volumes.join('\n')}">📚 ${item.volumes.length} volúmenes</div>`
+          : '';
+
+        const lastVolumeHtml = item.lastVolumeUnconfirmed
+          ? '<div class="mt-1"><span class="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">⚠️ Puede faltar el último volumen</span></div>'
+          : '';
+
+        const passwordHtml = item.encrypted
+          ? `<div class="mt-2 flex items-center space-x-2">
+                <span class="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">🔒 Protegido con contraseña</span>
+                <input type="password" data-filename="${item.fileName}" placeholder="Contraseña (opcional si está guardada)"
+                       class="zip-password-input flex-1 px-2 py-1 rounded-md border border-gray-300 text-sm focus:ring-blue-500 focus:border-blue-500">
+              </div>`
+          : '';
+
+        const structureHtml = item.structure ? this.renderStructurePreview(item.structure) : '';
+
+        const metadataHtml = showMetadata && item.parsedInfo
+          ? `<div class="grid grid-cols-3 gap-2 mt-1 text-xs text-gray-700">
+              <div><span class="text-gray-400">Edición</span> ${item.parsedInfo.edition || '—'}</div>
+              <div><span class="text-gray-400">Suplemento</span> ${item.parsedInfo.supplement || '—'}</div>
+              <div><span class="text-gray-400">N°</span> ${item.parsedInfo.issue ? item.parsedInfo.issue.toLocaleString('es-ES') : '—'}</div>
+            </div>`
+          : '';
+
+        const diaryHtml = item.parsedInfo?.originalDiary
+          ? `<div class="text-xs text-gray-500 mt-1">📰 "${item.parsedInfo.originalDiary}" → ${item.parsedInfo.diary}</div>`
+          : '';
+
+        const dateWarningHtml = item.parsedInfo?.dateWarning
+          ? `<div class="mt-1"><span class="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">⚠️ ${item.parsedInfo.dateWarning}</span></div>`
+          : '';
+
+        const publicationHtml = item.parsedInfo?.publicationWarning
+          ? `<div class="mt-1"><span class="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">⚠️ Fecha sospechosa: ${item.parsedInfo.publicationWarning}</span></div>`
+          : '';
+
+        const importedHtml = item.alreadyImported
+          ? `<div class="mt-1"><span class="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800" title="Importado el ${new Date(item.alreadyImported.importedAt).toLocaleString()} como ${item.alreadyImported.fileName}">✅ ya importado → ${item.alreadyImported.destination}</span></div>`
+          : '';
+
+        const conflicts: string[] = item.conflicts || [];
+        const conflictHtml = conflicts.length > 0
+          ? `<div class="mt-1"><span class="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800" title="${conflicts.slice(0, 20).join('\n')}">⚠️ ${conflicts.length} ${conflicts.length === 1 ? 'archivo ya existe' : 'archivos ya existen'} en el destino</span></div>`
+          : item.targetHasFiles
+            ? '<div class="mt-1"><span class="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">⚠️ La carpeta destino ya tiene archivos</span></div>'
+            : '';
+
+        const sizeHtml = typeof item.estimatedSize === 'number'
+          ? `<span class="text-xs text-gray-500 ml-2">≈ ${this.formatBytes(item.estimatedSize)}</span>`
+          : '';
+
         html += `<div class="p-3 bg-green-50 border border-green-200 rounded-lg">
           <div class="flex items-start space-x-3">
             <input type="checkbox" id="zip-file-${index}" data-filename="${item.fileName}" 
                    class="zip-file-checkbox mt-1 rounded border-gray-300 text-blue-600 focus:ring-blue-500" checked>
             <div class="flex-1">
-              <label for="zip-file-${index}" class="font-medium text-green-800 cursor-pointer">${item.fileName}</label>
+              <label for="zip-file-${index}" class="font-medium text-green-800 cursor-pointer">${item.fileName}</label>${sizeHtml}
               <div class="text-sm text-green-600 mt-1">
                 📁 ${item.targetPathLabel || ''}
               </div>
+              ${metadataHtml}
+              ${diaryHtml}
+              ${dateWarningHtml}
+              ${publicationHtml}
+              ${importedHtml}
+              ${conflictHtml}
+              ${structureHtml}
+              ${volumesHtml}
+              ${lastVolumeHtml}
+              ${passwordHtml}
             </div>
           </div>
         </div>`;
@@ -243,15 +474,87 @@ class ArchidropApp {
       html = '<div class="text-center py-8 text-gray-500">No se encontraron archivos que cumplan con el patrón de nomenclatura requerido.</div>';
       selectedCount.textContent = '0';
     }
+    html += this.renderSuggestions('zip', result.suggestions || []);
 
     previewContent.innerHTML = html;
+    this.setupSuggestionButtons('zip', result.suggestions || []);
+    if (this.zipPreselect) {
+      const preselect = this.zipPreselect;
+      this.zipPreselect = null;
+      document.querySelectorAll<HTMLInputElement>('.zip-file-checkbox:not(:disabled)').forEach(checkbox => {
+        checkbox.checked = preselect.includes(checkbox.dataset.filename || '');
+      });
+    }
     this.setupZipCheckboxListeners();
     previewCard.classList.remove('hidden');
     this.updateZipProcessButton();
   }
 
+  // Files left out because their date is almost right, each with the name that fixes it
+  private renderSuggestions(kind: 'zip' | 'date', suggestions: any[]): string {
+    if (suggestions.length === 0) {
+      return '';
+    }
+
+    const rows = suggestions.map((suggestion, index) => `<div class="flex items-start justify-between text-sm">
+        <div class="min-w-0 mr-3">
+          <div class="font-medium text-gray-800 truncate" title="${suggestion.fileName}">${suggestion.fileName}</div>
+          <div class="text-xs text-amber-700 mt-0.5">⚠️ ${suggestion.reason}</div>
+          <div class="text-xs text-gray-600 mt-0.5 truncate" title="${suggestion.suggestedName}">→ ${suggestion.suggestedName}</div>
+        </div>
+        <button type="button" data-suggestion-index="${index}"
+          class="${kind}-suggestion-apply whitespace-nowrap font-medium text-blue-600 hover:text-blue-800 disabled:text-gray-400 disabled:cursor-not-allowed">Renombrar</button>
+      </div>`).join('');
+
+    return `<div class="mt-4 p-3 bg-amber-50 border border-amber-200 rounded-lg">
+        <div class="font-medium text-amber-800 mb-2">🩹 Fechas con correcciones sugeridas (${suggestions.length})</div>
+        <div class="space-y-2">${rows}</div>
+      </div>`;
+  }
+
+  private setupSuggestionButtons(kind: 'zip' | 'date', suggestions: any[]): void {
+    document.querySelectorAll<HTMLButtonElement>(`.${kind}-suggestion-apply`).forEach(button => {
+      button.addEventListener('click', () => {
+        button.disabled = true;
+        void this.applySuggestion(kind, suggestions[Number(button.dataset.suggestionIndex)]);
+      });
+    });
+  }
+
+  private async applySuggestion(kind: 'zip' | 'date', suggestion: any): Promise<void> {
+    const result = await this.electronAPI.applyFileNameSuggestion(suggestion.filePath, suggestion.suggestedName);
+    if (!result.success) {
+      const message = `No se pudo renombrar ${suggestion.fileName}: ${result.error || 'Error desconocido'}`;
+      if (kind === 'zip') {
+        this.showZipError(message);
+      } else {
+        this.showDateError(message);
+      }
+    }
+
+    if (kind === 'zip') {
+      await this.previewZipFiles();
+    } else {
+      await this.previewDateFiles();
+    }
+  }
+
+  private renderStructurePreview(structure: { unwrapped: string[]; topLevel: string[] }): string {
+    const maxNames = 4;
+    const names = structure.topLevel.slice(0, maxNames).join(', ');
+    const more = structure.topLevel.length > maxNames ? ` y ${structure.topLevel.length - maxNames} más` : '';
+    const unwrappedHtml = structure.unwrapped.length > 0
+      ? `<div>↳ Se omite la carpeta contenedora: ${structure.unwrapped.map(name => `«${name}»`).join(' / ')}</div>`
+      : '';
+
+    return `<div class="text-xs text-gray-500 mt-1">
+        ${unwrappedHtml}
+        <div>📂 Contenido en destino: ${names}${more}</div>
+      </div>`;
+  }
+
   private setupZipCheckboxListeners(): void {
-    const checkboxes = document.querySelectorAll('.zip-file-checkbox') as NodeListOf<HTMLInputElement>;
+    const checkboxes = document.querySelectorAll('.zip-file-checkbox:not(:disabled)') as NodeListOf<HTMLInputElement>;
     const selectedCount = this.getElement('zip-selected-count');
     let selectAllBtn = this.getElement('zip-select-all-btn') as HTMLButtonElement;
 
@@ -282,6 +585,17 @@ class ArchidropApp {
       updateCounts();
     });
 
+    const fittingFiles = this.zipFittingFiles;
+    const fitOnlyBtn = document.getElementById('zip-fit-only-btn');
+    if (fittingFiles && fitOnlyBtn) {
+      fitOnlyBtn.addEventListener('click', () => {
+        checkboxes.forEach(checkbox => {
+          checkbox.checked = fittingFiles.includes(checkbox.dataset.filename || '');
+        });
+        updateCounts();
+      });
+    }
+
     updateCounts();
   }
 
@@ -300,9 +614,22 @@ class ArchidropApp {
 
     const deleteOriginalsCheckbox = this.getElement('zip-delete-originals') as HTMLInputElement;
     const deleteOriginals = deleteOriginalsCheckbox?.checked || false;
+    const reimportDuplicates = (this.getElement('zip-reimport-duplicates') as HTMLInputElement).checked;
+
+    const passwords: Record<string, string> = {};
+    const passwordInputs = document.querySelectorAll('.zip-password-input') as NodeListOf<HTMLInputElement>;
+    passwordInputs.forEach(input => {
+      const fileName = input.dataset.filename;
+      if (fileName && input.value && selectedFiles.includes(fileName)) {
+        passwords[fileName] = input.value;
+      }
+    });
 
     this.zipIsProcessing = true;
     this.updateZipProcessButton();
+    this.resetJobControls('zip');
+    this.zipActiveArchives.clear();
+    this.renderZipArchiveProgress();
 
     this.getElement('zip-progress-card').classList.remove('hidden');
     this.getElement('zip-results-card').classList.add('hidden');
@@ -311,8 +638,18 @@ class ArchidropApp {
       const result = await this.electronAPI.startZipProcessing(
         this.zipInputPath,
         selectedFiles,
-        deleteOriginals,
-        this.zipUseDateFolder
+        {
+          deleteOriginals,
+          useDateFolder: this.zipUseDateFolder,
+          extractNested: this.zipExtractNested,
+          maxNestedDepth: this.zipMaxNestedDepth,
+          testArchives: this.zipTestArchives,
+          concurrency: this.zipConcurrency,
+          unwrapMode: this.zipUnwrapMode,
+          conflictPolicy: (this.getElement('zip-conflict-policy') as HTMLSelectElement).value,
+          duplicatePolicy: reimportDuplicates ? 'reimport' : 'skip',
+          passwords
+        }
       );
 
       if (result.success) {
@@ -329,6 +666,7 @@ class ArchidropApp {
       this.zipIsProcessing = false;
       this.updateZipProcessButton();
       this.getElement('zip-progress-card').classList.add('hidden');
+      await this.renderJobHistory('zip');
     }
   }
 
@@ -341,29 +679,246 @@ class ArchidropApp {
     const totalCount = this.getElement('zip-total-count') as HTMLElement;
 
     progressBar.style.width = `${progress.percentage}%`;
-    progressText.textContent = progress.status;
+    // The current step keeps reporting until it reaches the next safe point
+    progressText.textContent = this.pausedJobs.has('zip') ? 'En pausa (se detendrá al terminar el paso actual)' : progress.status;
     progressPercentage.textContent = `${Math.round(progress.percentage)}%`;
     currentFile.textContent = progress.currentFile || '-';
     processedCount.textContent = progress.current.toString();
     totalCount.textContent = progress.total.toString();
+
+    // Several archives can be in flight at once; keep one bar per archive still active
+    if (progress.archive && progress.currentFile) {
+      this.zipActiveArchives.set(progress.currentFile, progress.archive);
+    }
+    const activeFiles: string[] = progress.activeFiles || [];
+    Array.from(this.zipActiveArchives.keys())
+      .filter(fileName => !activeFiles.includes(fileName))
+      .forEach(fileName => this.zipActiveArchives.delete(fileName));
+
+    this.renderZipArchiveProgress();
+  }
+
+  private renderZipArchiveProgress(): void {
+    const list = this.getElement('zip-archive-progress-list');
+    if (this.zipActiveArchives.size === 0) {
+      list.classList.add('hidden');
+      list.innerHTML = '';
+      return;
+    }
+
+    const phaseLabels: Record<string, string> = {
+      hashing: 'Comprobando si ya se importó',
+      testing: 'Verificando integridad',
+      extracting: 'Extrayendo',
+      moving: 'Moviendo',
+      cleaning: 'Limpiando'
+    };
+
+    let html = '';
+    this.zipActiveArchives.forEach((archive, fileName) => {
+      const archivePercentage = archive.bytesTotal > 0
+        ? Math.min(100, (archive.bytesDone / archive.bytesTotal) * 100)
+        : 100;
+      const bytesLabel = archive.bytesTotal > 0
+        ? `${this.formatBytes(archive.bytesDone)} de ${this.formatBytes(archive.bytesTotal)}`
+        : '';
+
+      html += `<div>
+          <div class="flex justify-between text-xs text-gray-500 mb-1">
+            <span class="truncate mr-2">${phaseLabels[archive.phase] || archive.phase} · ${fileName}</span>
+            <span class="whitespace-nowrap">${bytesLabel}</span>
+          </div>
+          <div class="w-full bg-gray-100 rounded-full h-1.5">
+            <div class="bg-blue-400 h-1.5 rounded-full" style="width: ${archivePercentage}%"></div>
+          </div>
+          <div class="text-xs text-gray-400 mt-1 truncate">${archive.currentEntry || ''}</div>
+        </div>`;
+    });
+
+    list.innerHTML = html;
+    list.classList.remove('hidden');
+  }
+
+  private formatBytes(bytes: number): string {
+    const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+    let value = bytes;
+    let unit = 0;
+    while (value >= 1024 && unit < units.length - 1) {
+      value /= 1024;
+      unit++;
+    }
+    return `${value.toLocaleString('es', { maximumFractionDigits: unit === 0 ? 0 : 1 })} ${units[unit]}`;
+  }
+
+  private resetJobControls(job: 'zip' | 'date'): void {
+    this.pausedJobs.delete(job);
+    this.getElement(`${job}-pause-btn`).textContent = 'Pausar';
+    (this.getElement(`${job}-pause-btn`) as HTMLButtonElement).disabled = false;
+    (this.getElement(`${job}-cancel-btn`) as HTMLButtonElement).disabled = false;
+  }
+
+  private async toggleJobPause(job: 'zip' | 'date'): Promise<void> {
+    try {
+      const paused = this.pausedJobs.has(job);
+      const result = paused
+        ? await this.electronAPI.resumeProcessing(job)
+        : await this.electronAPI.pauseProcessing(job);
+      if (!result.success) {
+        return;
+      }
+
+      if (paused) {
+        this.pausedJobs.delete(job);
+      } else {
+        this.pausedJobs.add(job);
+      }
+      this.getElement(`${job}-pause-btn`).textContent = paused ? 'Pausar' : 'Reanudar';
+      if (!paused) {
+        this.getElement(`${job}-progress-text`).textContent = 'En pausa (se detendrá al terminar el paso actual)';
+      }
+    } catch (error) {
+      console.error('Error toggling pause:', error);
+    }
+  }
+
+  private async cancelJob(job: 'zip' | 'date'): Promise<void> {
+    try {
+      (this.getElement(`${job}-cancel-btn`) as HTMLButtonElement).disabled = true;
+      (this.getElement(`${job}-pause-btn`) as HTMLButtonElement).disabled = true;
+      this.getElement(`${job}-progress-text`).textContent = 'Cancelando (se detendrá al terminar el paso actual)...';
+      await this.electronAPI.cancelProcessing(job);
+      this.pausedJobs.delete(job);
+    } catch (error) {
+      console.error('Error cancelling job:', error);
+    }
+  }
+
+  private renderCancelledNotice(result: any): string {
+    if (!result.cancelled) {
+      return '';
+    }
+
+    const pending: string[] = result.pending || [];
+    let html = `<div class="flex items-center text-amber-600">
+        <svg class="w-5 h-5 mr-2" fill="currentColor" viewBox="0 0 20 20">
+          <path fill-rule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM7 8a1 1 0 012 0v4a1 1 0 11-2 0V8zm5-1a1 1 0 00-1 1v4a1 1 0 102 0V8a1 1 0 00-1-1z" clip-rule="evenodd"></path>
+        </svg>
+        Operación cancelada: resultados parciales
+      </div>`;
+
+    if (pending.length > 0) {
+      html += `<div class="text-sm text-gray-600">Sin procesar (${pending.length}):</div>`;
+      html += '<ul class="text-sm text-gray-500 space-y-1">';
+      pending.forEach(fileName => {
+        html += `<li>• ${fileName}</li>`;
+      });
+      html += '</ul>';
+    }
+
+    return html;
+  }
+
+  private renderRollbackNotice(result: any): string {
+    const rolledBack: string[] = result.rolledBack || [];
+    if (rolledBack.length === 0) {
+      return '';
+    }
+
+    const title = result.batchRolledBack
+      ? 'Se revirtió todo el lote por un error: no quedó ningún cambio'
+      : 'Cambios revertidos tras un error';
+    let html = `<div class="mt-2 text-sm text-amber-700">
+        <div class="font-medium">↩️ ${title}</div>
+        <ul class="mt-1 space-y-1 text-amber-600">`;
+    rolledBack.forEach(fileName => {
+      html += `<li>• ${fileName}</li>`;
+    });
+    html += '</ul></div>';
+    return html;
+  }
+
+  private renderFileDecisions(result: any): string {
+    const decisions: any[] = result.decisions || [];
+    if (decisions.length === 0) {
+      return '';
+    }
+
+    const labels: Record<string, string> = {
+      created: 'Nuevo',
+      overwritten: 'Sobrescrito',
+      skipped: 'Omitido',
+      renamed: 'Renombrado',
+      'kept-existing': 'Se conservó el existente',
+      identical: 'Idéntico, omitido'
+    };
+    const counts = new Map<string, number>();
+    decisions.forEach(item => counts.set(item.decision, (counts.get(item.decision) || 0) + 1));
+    const summary = Array.from(counts.entries())
+      .map(([decision, count]) => `${labels[decision] || decision}: ${count}`)
+      .join(' · ');
+
+    // Large archives can hold thousands of pages; the list is capped to keep the results card usable
+    const maxListed = 500;
+    let html = `<details class="mt-2 text-sm text-gray-600">
+        <summary class="cursor-pointer">Decisión por archivo (${summary})</summary>
+        <ul class="mt-2 space-y-1 max-h-64 overflow-y-auto text-gray-500">`;
+    decisions.slice(0, maxListed).forEach(item => {
+      const renamedTo = item.decision === 'renamed' ? ` → ${item.targetPath.split(/[\\/]/).pop()}` : '';
+      html += `<li>• ${item.fileName}: ${labels[item.decision] || item.decision}${renamedTo}</li>`;
+    });
+    if (decisions.length > maxListed) {
+      html += `<li>… y ${decisions.length - maxListed} más</li>`;
+    }
+    html += '</ul></details>';
+    return html;
   }
 
   private showZipResults(result: any): void {
+    this.reports.set('zip-result', { data: result, inputPath: this.zipInputPath });
     const resultsCard = this.getElement('zip-results-card');
     const resultsContent = this.getElement('zip-results-content');
 
     let html = '<div class="space-y-2">';
+    html += this.renderCancelledNotice(result);
 
     if (result.processed) {
       html += `<div class="flex items-center text-green-600">
         <svg class="w-5 h-5 mr-2" fill="currentColor" viewBox="0 0 20 20">
           <path fill-rule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clip-rule="evenodd"></path>
         </svg>
-        Procesamiento completado exitosamente
+        ${result.cancelled ? 'Procesados antes de cancelar' : 'Procesamiento completado exitosamente'}
       </div>`;
       html += `<div class="text-sm text-gray-600">Archivos procesados: ${result.processed}</div>`;
     }
 
+    const alreadyImported: any[] = result.alreadyImported || [];
+    if (alreadyImported.length > 0) {
+      html += '<div class="mt-4">';
+      html += `<h4 class="text-sm font-medium text-blue-700 mb-2">Omitidos por estar ya importados (${alreadyImported.length}):</h4>`;
+      html += '<ul class="text-sm text-blue-600 space-y-1">';
+      alreadyImported.forEach(item => {
+        html += `<li>✅ ${item.fileName} → ${item.destination}</li>`;
+      });
+      html += '</ul></div>';
+    }
+
+    html += this.renderFileDecisions(result);
+    html += this.renderRollbackNotice(result);
+
+    if (result.nestedArchives) {
+      html += `<div class="text-sm text-gray-600">Archivos anidados extraídos: ${result.nestedArchives} (niveles: ${result.nestedLevels})</div>`;
+    }
+
+    if (result.passwordErrors && result.passwordErrors.length > 0) {
+      html += '<div class="mt-4">';
+      html += '<h4 class="text-sm font-medium text-amber-700 mb-2">Contraseña incorrecta o faltante:</h4>';
+      html += '<ul class="text-sm text-amber-600 space-y-1">';
+      result.passwordErrors.forEach((error: string) => {
+        html += `<li>🔒 ${error}</li>`;
+      });
+      html += '</ul></div>';
+    }
+
     if (result.errors && result.errors.length > 0) {
       html += '<div class="mt-4">';
       html += '<h4 class="text-sm font-medium text-red-600 mb-2">Errores encontrados:</h4>';
@@ -422,16 +977,60 @@ class ArchidropApp {
       this.autoOpen = autoOpen;
       const useDateFolder = (this.getElement('use-date-folder-setting') as HTMLInputElement).checked;
       this.zipUseDateFolder = useDateFolder;
+      const extractNested = (this.getElement('extract-nested-setting') as HTMLInputElement).checked;
+      this.zipExtractNested = extractNested;
+      const depthValue = parseInt((this.getElement('nested-depth-setting') as HTMLInputElement).value, 10);
+      const maxNestedDepth = Number.isFinite(depthValue) ? Math.min(Math.max(depthValue, 1), 10) : 3;
+      this.zipMaxNestedDepth = maxNestedDepth;
+      const testArchives = (this.getElement('test-archives-setting') as HTMLInputElement).checked;
+      this.zipTestArchives = testArchives;
+      const concurrencyValue = parseInt((this.getElement('concurrency-setting') as HTMLInputElement).value, 10);
+      const concurrency = Number.isFinite(concurrencyValue) ? Math.min(Math.max(concurrencyValue, 0), 16) : 0;
+      this.zipConcurrency = concurrency;
+      const unwrapMode = (this.getElement('unwrap-mode-setting') as HTMLSelectElement).value as 'off' | 'single' | 'recursive';
+      this.zipUnwrapMode = unwrapMode;
+      const rollbackScope = (this.getElement('rollback-scope-setting') as HTMLSelectElement).value as 'archive' | 'batch';
+      this.rollbackScope = rollbackScope;
+      const historyValue = parseInt((this.getElement('undo-history-setting') as HTMLInputElement).value, 10);
+      const undoHistorySize = Number.isFinite(historyValue) ? Math.min(Math.max(historyValue, 0), 20) : 5;
+      this.undoHistorySize = undoHistorySize;
+      const parseLocales = Array.from(document.querySelectorAll<HTMLInputElement>('.parse-locale-setting'))
+        .filter(checkbox => checkbox.checked)
+        .map(checkbox => checkbox.value);
+      const outputLocale = (this.getElement('output-locale-setting') as HTMLSelectElement).value;
+      const dateRangeMode = (this.getElement('date-range-setting') as HTMLSelectElement).value;
+      const metadataFolders = Array.from(document.querySelectorAll<HTMLInputElement>('.metadata-folder-setting'))
+        .filter(checkbox => checkbox.checked)
+        .map(checkbox => checkbox.value);
 
       const settings = {
         lastInputPath: this.zipInputPath,
         autoOpen,
-        useDateFolder
+        useDateFolder,
+        extractNested,
+        maxNestedDepth,
+        testArchives,
+        concurrency,
+        unwrapMode,
+        workspacePath: this.pendingWorkspacePath,
+        rollbackScope,
+        undoHistorySize,
+        filenamePatterns: this.pendingFilenamePatterns,
+        parseLocales,
+        outputLocale,
+        dateRangeMode,
+        metadataFolders,
+        diaries: this.pendingDiaries
       };
 
       await this.electronAPI.saveSettings(settings);
+      this.workspacePath = this.pendingWorkspacePath;
+      this.filenamePatterns = this.pendingFilenamePatterns;
+      this.diaries = this.pendingDiaries;
       this.hideSettings();
       await this.previewZipFiles();
+      // Date folder names depend on the languages as well
+      await this.previewDateFiles();
     } catch (error) {
       console.error('Error saving settings:', error);
       this.showZipError('Error al guardar la configuración');
@@ -440,6 +1039,556 @@ class ArchidropApp {
 
   private showSettings(): void {
     this.getElement('settings-modal').classList.remove('hidden');
+    this.pendingWorkspacePath = this.workspacePath;
+    this.pendingFilenamePatterns = this.filenamePatterns.map(pattern => ({ ...pattern }));
+    this.renderPatternsSummary();
+    this.pendingDiaries = this.diaries.map(diary => ({ ...diary, aliases: [...diary.aliases] }));
+    this.renderDiariesSummary();
+    void this.renderWorkspaceSetting();
+    void this.renderSavedPasswords();
+  }
+
+  private initializePatternEditor(): void {
+    const list = this.getElement('patterns-list');
+
+    this.getElement('filename-patterns-btn').addEventListener('click', () => this.openPatternEditor());
+    this.getElement('patterns-cancel').addEventListener('click', () => {
+      this.getElement('patterns-modal').classList.add('hidden');
+    });
+    this.getElement('patterns-apply').addEventListener('click', () => {
+      this.pendingFilenamePatterns = this.editingPatterns.filter(pattern => pattern.pattern.trim().length > 0);
+      this.getElement('patterns-modal').classList.add('hidden');
+      this.renderPatternsSummary();
+    });
+    this.getElement('patterns-add-btn').addEventListener('click', () => {
+      this.editingPatterns.push({ pattern: '', enabled: true });
+      this.renderPatternList();
+      const inputs = list.querySelectorAll<HTMLInputElement>('.pattern-input');
+      inputs[inputs.length - 1]?.focus();
+    });
+    this.getElement('patterns-reset-btn').addEventListener('click', async () => {
+      this.editingPatterns = await this.electronAPI.getDefaultFilenamePatterns();
+      this.renderPatternList();
+      this.schedulePatternTest();
+    });
+
+    // Rows are re-rendered on every reorder, so their events are handled on the list
+    list.addEventListener('input', event => {
+      const target = event.target as HTMLInputElement;
+      const index = Number(target.closest<HTMLElement>('[data-pattern-index]')?.dataset.patternIndex);
+      if (!Number.isInteger(index) || !this.editingPatterns[index]) {
+        return;
+      }
+      if (target.classList.contains('pattern-enabled')) {
+        this.editingPatterns[index].enabled = target.checked;
+      } else {
+        this.editingPatterns[index].pattern = target.value;
+      }
+      this.schedulePatternTest();
+    });
+    list.addEventListener('click', event => {
+      const button = (event.target as HTMLElement).closest<HTMLButtonElement>('button[data-action]');
+      const index = Number(button?.closest<HTMLElement>('[data-pattern-index]')?.dataset.patternIndex);
+      if (!button || !Number.isInteger(index)) {
+        return;
+      }
+      const swapWith = button.dataset.action === 'up' ? index - 1 : index + 1;
+      if (button.dataset.action === 'remove') {
+        this.editingPatterns.splice(index, 1);
+      } else if (swapWith >= 0 && swapWith < this.editingPatterns.length) {
+        [this.editingPatterns[index], this.editingPatterns[swapWith]] = [this.editingPatterns[swapWith], this.editingPatterns[index]];
+      }
+      this.renderPatternList();
+      this.schedulePatternTest();
+    });
+  }
+
+  private renderPatternsSummary(): void {
+    const active = this.pendingFilenamePatterns.filter(pattern => pattern.enabled).length;
+    this.getElement('filename-patterns-summary').textContent = `${active} activas`;
+  }
+
+  private openPatternEditor(): void {
+    this.editingPatterns = this.pendingFilenamePatterns.map(pattern => ({ ...pattern }));
+    this.getElement('patterns-modal').classList.remove('hidden');
+    this.renderPatternList();
+    void this.runPatternTest();
+  }
+
+  private renderPatternList(): void {
+    const list = this.getElement('patterns-list');
+    list.innerHTML = this.editingPatterns.map((_pattern, index) => `<div data-pattern-index="${index}">
+        <div class="flex items-center space-x-2">
+          <input type="checkbox" class="pattern-enabled rounded border-gray-300 text-blue-600 focus:ring-blue-500" title="Activa">
+          <span class="w-6 text-xs text-gray-400">#${index + 1}</span>
+          <input type="text" class="pattern-input flex-1 px-2 py-1 rounded-md border border-gray-300 text-sm font-mono focus:ring-blue-500 focus:border-blue-500" placeholder="{diary} - {day} de {month} de {year}">
+          <button type="button" data-action="up" class="px-1 text-gray-500 hover:text-gray-800" title="Subir prioridad">↑</button>
+          <button type="button" data-action="down" class="px-1 text-gray-500 hover:text-gray-800" title="Bajar prioridad">↓</button>
+          <button type="button" data-action="remove" class="px-1 text-red-500 hover:text-red-700" title="Eliminar">✕</button>
+        </div>
+        <div class="pattern-error ml-14 text-xs text-red-600"></div>
+      </div>`).join('');
+
+    // Values are set as properties so braces and quotes in a rule never break the markup
+    list.querySelectorAll<HTMLElement>('[data-pattern-index]').forEach(row => {
+      const pattern = this.editingPatterns[Number(row.dataset.patternIndex)];
+      (row.querySelector('.pattern-enabled') as HTMLInputElement).checked = pattern.enabled;
+      (row.querySelector('.pattern-input') as HTMLInputElement).value = pattern.pattern;
+    });
+  }
+
+  private schedulePatternTest(): void {
+    if (this.patternTestTimer !== null) {
+      window.clearTimeout(this.patternTestTimer);
+    }
+    this.patternTestTimer = window.setTimeout(() => {
+      this.patternTestTimer = null;
+      void this.runPatternTest();
+    }, 300);
+  }
+
+  private async runPatternTest(): Promise<void> {
+    const summary = this.getElement('patterns-test-summary');
+    const results = this.getElement('patterns-test-results');
+
+    try {
+      const result = await this.electronAPI.testFilenamePatterns(this.zipInputPath, this.editingPatterns);
+
+      this.getElement('patterns-list').querySelectorAll<HTMLElement>('[data-pattern-index]').forEach(row => {
+        const error = result.patternErrors[Number(row.dataset.patternIndex)];
+        (row.querySelector('.pattern-error') as HTMLElement).textContent = error || '';
+      });
+
+      if (!result.success) {
+        summary.textContent = result.error || 'No se pudieron probar las reglas';
+        results.innerHTML = '';
+        return;
+      }
+
+      const recognised = result.items.filter((item: any) => item.parsedInfo).length;
+      summary.textContent = `${recognised} de ${result.items.length} archivos de ${this.zipInputPath} reconocidos`;
+      results.innerHTML = result.items.map((item: any) => {
+        const outcome = item.parsedInfo
+          ? `<span class="text-gray-400">#${item.patternIndex + 1}</span> <span class="text-green-700">${item.targetPathLabel}</span>`
+          : '<span class="text-red-600">Sin coincidencia</span>';
+        return `<div class="flex justify-between py-1 border-b border-gray-100">
+            <span class="truncate mr-3 text-gray-700">${item.fileName}</span>
+            <span class="whitespace-nowrap">${outcome}</span>
+          </div>`;
+      }).join('');
+    } catch (error) {
+      console.error('Error testing filename patterns:', error);
+    }
+  }
+
+  private initializeDiaryEditor(): void {
+    const list = this.getElement('diaries-list');
+
+    this.getElement('diaries-btn').addEventListener('click', () => {
+      this.editingDiaries = this.pendingDiaries.map(diary => ({ ...diary, aliases: [...diary.aliases] }));
+      this.getElement('diaries-error').textContent = '';
+      this.getElement('diaries-modal').classList.remove('hidden');
+      this.renderDiaryList();
+    });
+    this.getElement('diaries-cancel').addEventListener('click', () => {
+      this.getElement('diaries-modal').classList.add('hidden');
+    });
+    this.getElement('diaries-apply').addEventListener('click', () => this.applyDiaries());
+    this.getElement('diaries-add-btn').addEventListener('click', () => {
+      this.editingDiaries.push({ name: '', aliases: [] });
+      this.renderDiaryList();
+      const names = list.querySelectorAll<HTMLInputElement>('.diary-name');
+      names[names.length - 1]?.focus();
+    });
+
+    list.addEventListener('input', event => {
+      const target = event.target as HTMLInputElement;
+      const index = Number(target.closest<HTMLElement>('[data-diary-index]')?.dataset.diaryIndex);
+      const diary = this.editingDiaries[index];
+      if (!diary) {
+        return;
+      }
+      const year = parseInt(target.value, 10);
+      if (target.classList.contains('diary-name')) {
+        diary.name = target.value;
+      } else if (target.classList.contains('diary-aliases')) {
+        diary.aliases = target.value.split('\n').map(alias => alias.trim()).filter(Boolean);
+      } else if (target.classList.contains('diary-first')) {
+        diary.firstYear = Number.isFinite(year) ? year : undefined;
+      } else if (target.classList.contains('diary-last')) {
+        diary.lastYear = Number.isFinite(year) ? year : undefined;
+      }
+    });
+    list.addEventListener('click', event => {
+      const button = (event.target as HTMLElement).closest<HTMLButtonElement>('button[data-action="remove"]');
+      const index = Number(button?.closest<HTMLElement>('[data-diary-index]')?.dataset.diaryIndex);
+      if (button && Number.isInteger(index)) {
+        this.editingDiaries.splice(index, 1);
+        this.renderDiaryList();
+      }
+    });
+  }
+
+  private renderDiariesSummary(): void {
+    const count = this.pendingDiaries.length;
+    this.getElement('diaries-summary').textContent = count === 1 ? '1 diario' : `${count} diarios`;
+  }
+
+  private renderDiaryList(): void {
+    const list = this.getElement('diaries-list');
+    if (this.editingDiaries.length === 0) {
+      list.innerHTML = '<p class="text-sm text-gray-500">Todavía no hay diarios. Los nombres se usan tal como aparecen en los archivos.</p>';
+      return;
+    }
+
+    list.innerHTML = this.editingDiaries.map((_diary, index) => `<div data-diary-index="${index}" class="p-3 border border-gray-200 rounded-md">
+        <div class="flex items-center space-x-2">
+          <input type="text" class="diary-name flex-1 px-2 py-1 rounded-md border border-gray-300 text-sm focus:ring-blue-500 focus:border-blue-500" placeholder="Nombre de la carpeta">
+          <input type="number" class="diary-first w-20 px-2 py-1 rounded-md border border-gray-300 text-sm focus:ring-blue-500 focus:border-blue-500" placeholder="Desde" title="Primer año de publicación">
+          <span class="text-gray-400">–</span>
+          <input type="number" class="diary-last w-20 px-2 py-1 rounded-md border border-gray-300 text-sm focus:ring-blue-500 focus:border-blue-500" placeholder="Hasta" title="Último año de publicación (vacío si sigue publicándose)">
+          <button type="button" data-action="remove" class="px-1 text-red-500 hover:text-red-700" title="Eliminar">✕</button>
+        </div>
+        <textarea class="diary-aliases mt-2 w-full px-2 py-1 rounded-md border border-gray-300 text-sm font-mono focus:ring-blue-500 focus:border-blue-500" rows="2" placeholder="Otros nombres, uno por línea"></textarea>
+      </div>`).join('');
+
+    list.querySelectorAll<HTMLElement>('[data-diary-index]').forEach(row => {
+      const diary = this.editingDiaries[Number(row.dataset.diaryIndex)];
+      (row.querySelector('.diary-name') as HTMLInputElement).value = diary.name;
+      (row.querySelector('.diary-first') as HTMLInputElement).value = diary.firstYear?.toString() ?? '';
+      (row.querySelector('.diary-last') as HTMLInputElement).value = diary.lastYear?.toString() ?? '';
+      (row.querySelector('.diary-aliases') as HTMLTextAreaElement).value = diary.aliases.join('\n');
+    });
+  }
+
+  private applyDiaries(): void {
+    const diaries = this.editingDiaries
+      .map(diary => ({ ...diary, name: diary.name.trim() }))
+      .filter(diary => diary.name || diary.aliases.length > 0);
+
+    for (const diary of diaries) {
+      const problem = this.getDiaryProblem(diary);
+      if (problem) {
+        this.getElement('diaries-error').textContent = `${diary.name || 'Diario sin nombre'}: ${problem}`;
+        return;
+      }
+    }
+
+    this.pendingDiaries = diaries;
+    this.getElement('diaries-modal').classList.add('hidden');
+    this.renderDiariesSummary();
+  }
+
+  private getDiaryProblem(diary: any): string | null {
+    if (!diary.name) {
+      return 'falta el nombre de la carpeta';
+    }
+    for (const alias of diary.aliases) {
+      const expression = /^\/(.+)\/$/.exec(alias);
+      if (!expression) {
+        continue;
+      }
+      try {
+        new RegExp(expression[1], 'iu');
+      } catch (error) {
+        return `la expresión ${alias} no es válida`;
+      }
+    }
+    if (diary.firstYear && diary.lastYear && diary.firstYear > diary.lastYear) {
+      return 'el primer año es posterior al último';
+    }
+    return null;
+  }
+
+  private async selectWorkspaceFolder(): Promise<void> {
+    try {
+      const result = await this.electronAPI.selectFolder('Seleccionar espacio de trabajo');
+      if (!result.canceled && result.filePaths.length > 0) {
+        this.pendingWorkspacePath = result.filePaths[0];
+        await this.renderWorkspaceSetting();
+      }
+    } catch (error) {
+      console.error('Error selecting workspace folder:', error);
+    }
+  }
+
+  private async renderWorkspaceSetting(): Promise<void> {
+    const hint = this.getElement('workspace-volume-hint');
+    try {
+      const info = await this.electronAPI.getWorkspaceInfo(this.pendingWorkspacePath);
+      (this.getElement('workspace-path-setting') as HTMLInputElement).value = info.path;
+      if (info.sameVolume === false) {
+        hint.className = 'block text-xs mt-1 text-amber-600';
+        hint.textContent = 'Está en otro disco que Dropbox: los archivos se copiarán al destino en lugar de moverse, lo que es más lento.';
+      } else if (info.sameVolume) {
+        hint.className = 'block text-xs mt-1 text-green-600';
+        hint.textContent = 'Mismo disco que Dropbox: los archivos se mueven al destino al instante.';
+      } else {
+        hint.textContent = '';
+      }
+    } catch (error) {
+      console.error('Error loading workspace info:', error);
+      hint.textContent = '';
+    }
+  }
+
+  private async renderJobHistory(kind: 'zip' | 'date'): Promise<void> {
+    const card = this.getElement(`${kind}-history-card`);
+    const list = this.getElement(`${kind}-history-list`);
+
+    try {
+      const result = await this.electronAPI.listUndoableJobs(kind);
+      const jobs: any[] = result.success ? result.items : [];
+      if (jobs.length === 0) {
+        card.classList.add('hidden');
+        list.innerHTML = '';
+        return;
+      }
+
+      const unitLabel = kind === 'zip' ? 'archivos' : 'elementos';
+      list.innerHTML = jobs.map((job, index) => {
+        const blockedTitle = job.blockedBy ? 'Primero deshaz la operación más reciente que modificó los mismos archivos' : '';
+        return `<div class="flex items-center justify-between text-sm">
+            <div class="min-w-0 mr-3">
+              <div class="font-medium text-gray-800">${new Date(job.finishedAt).toLocaleString()} · ${job.units.length} ${unitLabel}</div>
+              <div class="text-xs text-gray-500 truncate" title="${job.units.join('\n')}">${job.inputPath}</div>
+            </div>
+            <button type="button" data-job-index="${index}" ${job.blockedBy ? 'disabled' : ''} title="${blockedTitle}"
+              class="${kind}-history-undo whitespace-nowrap font-medium text-blue-600 hover:text-blue-800 disabled:text-gray-400 disabled:cursor-not-allowed">Deshacer</button>
+          </div>`;
+      }).join('');
+
+      list.querySelectorAll<HTMLButtonElement>(`.${kind}-history-undo`).forEach(button => {
+        button.addEventListener('click', () => {
+          void this.undoJob(kind, jobs[Number(button.dataset.jobIndex)]);
+        });
+      });
+      card.classList.remove('hidden');
+    } catch (error) {
+      console.error('Error loading the undo history:', error);
+    }
+  }
+
+  private async undoJob(kind: 'zip' | 'date', job: any): Promise<void> {
+    const question = kind === 'zip'
+      ? `¿Deshacer la importación de ${job.units.length} archivos? Se quitarán de Dropbox y se restaurarán los originales y los archivos sobrescritos.`
+      : `¿Deshacer la organización de ${job.units.length} archivos? Volverán a su ubicación original.`;
+    if (!window.confirm(question)) {
+      return;
+    }
+
+    const result = await this.electronAPI.undoJob(job.id);
+    if (!result.success) {
+      const details = result.errors && result.errors.length > 0 ? result.errors.join(' · ') : result.error;
+      const message = `No se pudo deshacer por completo: ${details || 'Error desconocido'}`;
+      if (kind === 'zip') {
+        this.showZipError(message);
+      } else {
+        this.showDateError(message);
+      }
+    }
+
+    await this.renderJobHistory(kind);
+    if (kind === 'zip' && this.zipInputPath) {
+      await this.previewZipFiles();
+    } else if (kind === 'date' && this.dateInputPath) {
+      await this.previewDateFiles();
+    }
+  }
+
+  private updateRecoveryCard(): void {
+    const hasItems = ['journal-recovery-section', 'zip-recovery-section']
+      .some(id => !this.getElement(id).classList.contains('hidden'));
+    this.getElement('recovery-card').classList.toggle('hidden', !hasItems);
+  }
+
+  private async checkInterruptedJournals(): Promise<void> {
+    const section = this.getElement('journal-recovery-section');
+    const list = this.getElement('journal-recovery-list');
+
+    try {
+      const result = await this.electronAPI.findInterruptedJournals();
+      const journals: any[] = result.success ? result.items : [];
+      if (journals.length === 0) {
+        section.classList.add('hidden');
+        list.innerHTML = '';
+        this.updateRecoveryCard();
+        return;
+      }
+
+      const kindLabels: Record<string, string> = { zip: 'Extracción de ZIPs', date: 'Organizar por fecha' };
+      list.innerHTML = journals.map((journal, index) => {
+        const undone = journal.scope === 'batch'
+          ? journal.pending.length + journal.committed.length
+          : journal.pending.length;
+        const details = journal.scope === 'batch'
+          ? `${journal.pending.length} sin terminar · se revierte todo el lote (${undone})`
+          : `${journal.pending.length} sin terminar · ${journal.committed.length} completados se conservan`;
+        return `<div class="flex items-center justify-between text-sm">
+            <div class="min-w-0 mr-3">
+              <div class="font-medium text-amber-800">${kindLabels[journal.kind] || journal.kind} · ${new Date(journal.startedAt).toLocaleString()}</div>
+              <div class="text-xs text-amber-700 truncate" title="${journal.pending.join('\n')}">${journal.inputPath} · ${details}</div>
+            </div>
+            <div class="flex space-x-3 whitespace-nowrap">
+              ${undone > 0 ? `<button type="button" data-journal-index="${index}" data-action="rollback" class="journal-recovery-action font-medium text-blue-600 hover:text-blue-800">Revertir</button>` : ''}
+              <button type="button" data-journal-index="${index}" data-action="keep" class="journal-recovery-action font-medium text-gray-600 hover:text-gray-800">Conservar</button>
+            </div>
+          </div>`;
+      }).join('');
+
+      list.querySelectorAll<HTMLButtonElement>('.journal-recovery-action').forEach(button => {
+        button.addEventListener('click', () => {
+          const action = button.dataset.action === 'rollback' ? 'rollback' : 'keep';
+          void this.recoverJournal(journals[Number(button.dataset.journalIndex)], action);
+        });
+      });
+      section.classList.remove('hidden');
+      this.updateRecoveryCard();
+    } catch (error) {
+      console.error('Error looking for interrupted operations:', error);
+    }
+  }
+
+  private async recoverJournal(journal: any, action: 'rollback' | 'keep'): Promise<void> {
+    const result = await this.electronAPI.recoverJournal(journal.id, action);
+    if (!result.success) {
+      const details = result.errors && result.errors.length > 0 ? result.errors.join(' · ') : result.error;
+      const message = `No se pudieron revertir todos los cambios: ${details || 'Error desconocido'}`;
+      this.switchTab(journal.kind === 'date' ? 'date' : 'zip');
+      if (journal.kind === 'date') {
+        this.showDateError(message);
+      } else {
+        this.showZipError(message);
+      }
+    }
+    await this.checkInterruptedJournals();
+  }
+
+  private async checkOrphanedWorkspaces(): Promise<void> {
+    const section = this.getElement('zip-recovery-section');
+    const list = this.getElement('zip-recovery-list');
+
+    try {
+      const result = await this.electronAPI.findOrphanedWorkspaces();
+      const orphans: any[] = result.success ? result.items : [];
+      if (orphans.length === 0) {
+        section.classList.add('hidden');
+        list.innerHTML = '';
+        this.updateRecoveryCard();
+        return;
+      }
+
+      list.innerHTML = orphans.map((orphan, index) => {
+        const title = orphan.legacy
+          ? 'Carpeta temporal antigua dentro de Dropbox/Archivos'
+          : `Iniciado el ${orphan.startedAt ? new Date(orphan.startedAt).toLocaleString() : '(fecha desconocida)'}`;
+        const details = orphan.legacy
+          ? `${orphan.pending.length} elementos`
+          : `${orphan.inputPath || ''} · ${orphan.pending.length} sin terminar`;
+        const canResume = !orphan.legacy && orphan.inputPath && orphan.pending.length > 0;
+        return `<div class="flex items-center justify-between text-sm">
+            <div class="min-w-0 mr-3">
+              <div class="font-medium text-amber-800">${title}</div>
+              <div class="text-xs text-amber-700 truncate" title="${orphan.pending.join('\n')}">${details} · ${this.formatBytes(orphan.size)}</div>
+            </div>
+            <div class="flex space-x-3 whitespace-nowrap">
+              ${canResume ? `<button type="button" data-orphan-index="${index}" class="zip-recovery-resume font-medium text-blue-600 hover:text-blue-800">Reanudar</button>` : ''}
+              <button type="button" data-orphan-index="${index}" class="zip-recovery-clean font-medium text-red-600 hover:text-red-800">Limpiar</button>
+            </div>
+          </div>`;
+      }).join('');
+
+      list.querySelectorAll<HTMLButtonElement>('.zip-recovery-resume').forEach(button => {
+        button.addEventListener('click', () => {
+          void this.resumeOrphanedWorkspace(orphans[Number(button.dataset.orphanIndex)]);
+        });
+      });
+      list.querySelectorAll<HTMLButtonElement>('.zip-recovery-clean').forEach(button => {
+        button.addEventListener('click', () => {
+          void this.cleanOrphanedWorkspace(orphans[Number(button.dataset.orphanIndex)]);
+        });
+      });
+      section.classList.remove('hidden');
+      this.updateRecoveryCard();
+    } catch (error) {
+      console.error('Error looking for interrupted jobs:', error);
+    }
+  }
+
+  private async cleanOrphanedWorkspace(orphan: any): Promise<boolean> {
+    const result = await this.electronAPI.cleanOrphanedWorkspace(orphan.id);
+    if (!result.success) {
+      this.showZipError(result.error || 'No se pudo limpiar el espacio de trabajo');
+    }
+    await this.checkOrphanedWorkspaces();
+    return result.success;
+  }
+
+  // Partially extracted files cannot be trusted, so resuming starts the unfinished archives again
+  private async resumeOrphanedWorkspace(orphan: any): Promise<void> {
+    if (this.zipIsProcessing || !(await this.cleanOrphanedWorkspace(orphan))) {
+      return;
+    }
+
+    this.switchTab('zip');
+    this.zipPreselect = orphan.pending;
+    await this.handleZipPathSelection(orphan.inputPath);
+  }
+
+  private async renderSavedPasswords(): Promise<void> {
+    const list = this.getElement('saved-passwords-list');
+
+    try {
+      const result = await this.electronAPI.listSavedPasswords();
+
+      if (!result.available) {
+        list.innerHTML = '<div class="text-xs text-gray-500">El almacenamiento cifrado no está disponible en este sistema.</div>';
+        return;
+      }
+
+      if (result.items.length === 0) {
+        list.innerHTML = '<div class="text-xs text-gray-500">No hay contraseñas guardadas.</div>';
+        return;
+      }
+
+      list.innerHTML = result.items.map((item: any) => `<div class="flex items-center justify-between text-sm text-gray-700">
+          <span>${item.masked}</span>
+          <button type="button" data-password-index="${item.index}" class="saved-password-remove text-xs text-red-600 hover:text-red-800">Eliminar</button>
+        </div>`).join('');
+
+      list.querySelectorAll<HTMLButtonElement>('.saved-password-remove').forEach(button => {
+        button.addEventListener('click', () => {
+          void this.removeSavedPassword(Number(button.dataset.passwordIndex));
+        });
+      });
+    } catch (error) {
+      console.error('Error loading saved passwords:', error);
+      list.innerHTML = '<div class="text-xs text-red-500">Error al cargar las contraseñas guardadas.</div>';
+    }
+  }
+
+  private async addSavedPassword(): Promise<void> {
+    const input = this.getElement('saved-password-input') as HTMLInputElement;
+    if (!input.value) {
+      return;
+    }
+
+    const result = await this.electronAPI.addSavedPassword(input.value);
+    if (result.success) {
+      input.value = '';
+    } else {
+      console.error('Error saving password:', result.error);
+      alert(result.error || 'No se pudo guardar la contraseña');
+    }
+    await this.renderSavedPasswords();
+  }
+
+  private async removeSavedPassword(index: number): Promise<void> {
+    const result = await this.electronAPI.removeSavedPassword(index);
+    if (!result.success) {
+      console.error('Error removing password:', result.error);
+    }
+    await this.renderSavedPasswords();
   }
 
   private hideSettings(): void {
@@ -516,6 +1665,7 @@ class ArchidropApp {
   }
 
   private showDatePreviewResults(result: any): void {
+    this.reports.set('date-preview', { data: result, inputPath: this.dateInputPath });
     const previewCard = this.getElement('date-preview-card');
     const previewContent = this.getElement('date-preview-content');
     const previewCount = this.getElement('date-preview-count');
@@ -537,6 +1687,8 @@ class ArchidropApp {
               <div class="text-sm text-indigo-600 mt-1">
                 📁 ${item.targetPathLabel || ''}
               </div>
+              ${item.warning ? `<div class="mt-1"><span class="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">⚠️ ${item.warning}</span></div>` : ''}
+              ${item.conflict ? '<div class="mt-1"><span class="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">⚠️ Ya existe en el destino</span></div>' : ''}
             </div>
           </div>
         </div>`;
@@ -548,8 +1700,10 @@ class ArchidropApp {
       html = '<div class="text-center py-8 text-gray-500">No se encontraron archivos con fechas en su nombre.</div>';
       selectedCount.textContent = '0';
     }
+    html += this.renderSuggestions('date', result.suggestions || []);
 
     previewContent.innerHTML = html;
+    this.setupSuggestionButtons('date', result.suggestions || []);
     previewCard.classList.remove('hidden');
     this.setupDateCheckboxListeners();
     this.updateDateProcessButton();
@@ -605,9 +1759,11 @@ class ArchidropApp {
     }
 
     const operationUsed = this.dateOperation;
+    const conflictPolicy = (this.getElement('date-conflict-policy') as HTMLSelectElement).value;
 
     this.dateIsProcessing = true;
     this.updateDateProcessButton();
+    this.resetJobControls('date');
 
     this.getElement('date-progress-card').classList.remove('hidden');
     this.getElement('date-results-card').classList.add('hidden');
@@ -616,7 +1772,8 @@ class ArchidropApp {
       const result = await this.electronAPI.startDateProcessing(
         this.dateInputPath,
         selectedFiles,
-        operationUsed
+        operationUsed,
+        conflictPolicy
       );
 
       if (result.success) {
@@ -635,6 +1792,7 @@ class ArchidropApp {
       this.dateIsProcessing = false;
       this.updateDateProcessButton();
       this.getElement('date-progress-card').classList.add('hidden');
+      await this.renderJobHistory('date');
     }
   }
 
@@ -647,7 +1805,7 @@ class ArchidropApp {
     const totalCount = this.getElement('date-total-count') as HTMLElement;
 
     progressBar.style.width = `${progress.percentage}%`;
-    progressText.textContent = progress.status;
+    progressText.textContent = this.pausedJobs.has('date') ? 'En pausa (se detendrá al terminar el paso actual)' : progress.status;
     progressPercentage.textContent = `${Math.round(progress.percentage)}%`;
     currentFile.textContent = progress.currentFile || '-';
     processedCount.textContent = progress.current.toString();
@@ -655,10 +1813,12 @@ class ArchidropApp {
   }
 
   private showDateResults(result: any, operation: 'move' | 'copy'): void {
+    this.reports.set('date-result', { data: result, inputPath: this.dateInputPath });
     const resultsCard = this.getElement('date-results-card');
     const resultsContent = this.getElement('date-results-content');
 
     let html = '<div class="space-y-2">';
+    html += this.renderCancelledNotice(result);
 
     if (result.processed) {
       html += `<div class="flex items-center text-green-600">
@@ -670,6 +1830,9 @@ class ArchidropApp {
       html += `<div class="text-sm text-gray-600">Archivos procesados: ${result.processed}</div>`;
     }
 
+    html += this.renderFileDecisions(result);
+    html += this.renderRollbackNotice(result);
+
     if (result.errors && result.errors.length > 0) {
       html += '<div class="mt-4">';
       html += '<h4 class="text-sm font-medium text-red-600 mb-2">Archivos con problemas:</h4>';
@@ -0,0 +1,33 @@
+export type PasswordErrorReason = 'required' | 'wrong';
+
+// Raised when an encrypted archive cannot be opened with any of the available passwords
+export class ArchivePasswordError extends Error {
+  readonly reason: PasswordErrorReason;
+
+  constructor(reason: PasswordErrorReason, message?: string) {
+    super(message || (reason === 'required'
+      ? 'El archivo está protegido con contraseña'
+      : 'Contraseña incorrecta'));
+    this.name = 'ArchivePasswordError';
+    this.reason = reason;
+  }
+}
+
+// Raised when an archive entry would land outside the extraction root or is a link
+export class UnsafeArchiveError extends Error {
+  readonly entryName: string;
+
+  constructor(entryName: string, detail: string) {
+    super(`Archivo rechazado por seguridad: la entrada "${entryName}" ${detail}`);
+    this.name = 'UnsafeArchiveError';
+    this.entryName = entryName;
+  }
+}
+
+// Raised when an archive fails its integrity test (bad CRC, truncated data, damaged headers)
+export class CorruptArchiveError extends Error {
+  constructor(detail: string) {
+    super(`Archivo dañado: ${detail}`);
+    this.name = 'CorruptArchiveError';
+  }
+}
@@ -0,0 +1,59 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { UnsafeArchiveError } from './archiveErrors';
+
+// Splits an archive entry name into path segments, rejecting anything that could escape the root
+export function getSafeEntrySegments(entryName: string): string[] {
+  const normalized = entryName.replace(/\\/g, '/');
+
+  if (normalized.includes('\0')) {
+    throw new UnsafeArchiveError(entryName, 'contiene caracteres no válidos');
+  }
+
+  if (normalized.startsWith('/') || /^[a-zA-Z]:/.test(normalized)) {
+    throw new UnsafeArchiveError(entryName, 'usa una ruta absoluta');
+  }
+
+  const segments = normalized.split('/').filter(segment => segment && segment !== '.');
+  if (segments.includes('..')) {
+    throw new UnsafeArchiveError(entryName, 'apunta fuera de la carpeta de extracción');
+  }
+
+  return segments;
+}
+
+export function resolveEntryPath(rootDir: string, entryName: string): string {
+  const root = path.resolve(rootDir);
+  const targetPath = path.resolve(root, ...getSafeEntrySegments(entryName));
+  const relative = path.relative(root, targetPath);
+
+  // Catches anything the segment check missed, e.g. platform-specific separators
+  if (relative.startsWith('..') || path.isAbsolute(relative)) {
+    throw new UnsafeArchiveError(entryName, 'apunta fuera de la carpeta de extracción');
+  }
+
+  return targetPath;
+}
+
+export function validateEntryNames(entryNames: string[]): void {
+  entryNames.forEach(entryName => getSafeEntrySegments(entryName));
+}
+
+// Post-extraction check: nothing under the root may be a symlink, so later moves can't follow one out
+export async function verifyExtractedTree(rootDir: string): Promise<void> {
+  const items = await fs.readdir(rootDir);
+
+  for (const item of items) {
+    const fullPath = path.join(rootDir, item);
+    const stat = await fs.lstat(fullPath);
+
+    if (stat.isSymbolicLink()) {
+      const relativeName = path.relative(rootDir, fullPath);
+      throw new UnsafeArchiveError(relativeName, 'es un enlace simbólico');
+    }
+
+    if (stat.isDirectory()) {
+      await verifyExtractedTree(fullPath);
+    }
+  }
+}
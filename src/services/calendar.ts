@@ -0,0 +1,39 @@
+// Calendar rules shared by the archive and date parsers
+
+export const MIN_YEAR = 1900;
+
+// A newspaper cannot be dated after the current year
+export function getMaxYear(): number {
+  return new Date().getFullYear();
+}
+
+export function getDaysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+export interface DateComponents {
+  // Missing for a month and year such as "dic. 1989"
+  day?: number;
+  // Last day of a range such as "11-17 de diciembre"
+  endDay?: number;
+  month: number;
+  year: number;
+}
+
+// "31 de abril" or "29 de febrero de 1989" are not dates
+export function isValidDate({ day, endDay, month, year }: DateComponents): boolean {
+  if (!Number.isInteger(year) || year < MIN_YEAR || year > getMaxYear()) {
+    return false;
+  }
+  if (!Number.isInteger(month) || month < 1 || month > 12) {
+    return false;
+  }
+  if (day === undefined) {
+    return endDay === undefined;
+  }
+
+  const lastDay = getDaysInMonth(year, month);
+  const validDay = Number.isInteger(day) && day >= 1 && day <= lastDay;
+  const validRange = endDay === undefined || (endDay > day && endDay <= lastDay);
+  return validDay && validRange;
+}
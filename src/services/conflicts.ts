@@ -0,0 +1,110 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { hashFile } from './fingerprints';
+import { directFileOperations, FileOperations, TransferMode } from './journal';
+
+// What to do when a file already exists at its destination
+export type ConflictPolicy = 'overwrite' | 'skip' | 'rename' | 'newer' | 'hash';
+
+export type FileDecisionKind =
+  | 'created'
+  | 'overwritten'
+  | 'skipped'
+  | 'renamed'
+  | 'kept-existing'
+  | 'identical';
+
+export interface FileDecision {
+  // Name relative to the archive contents or the input folder
+  fileName: string;
+  // Where the file ended up, or the existing file that was kept
+  targetPath: string;
+  decision: FileDecisionKind;
+}
+
+async function isSameContent(first: string, second: string): Promise<boolean> {
+  const [firstStat, secondStat] = await Promise.all([fs.stat(first), fs.stat(second)]);
+  if (firstStat.size !== secondStat.size) {
+    return false;
+  }
+  return await hashFile(first) === await hashFile(second);
+}
+
+// Appends " (2)", " (3)"... before the extension until the name is free
+async function getUniqueFilePath(targetPath: string): Promise<string> {
+  const extension = path.extname(targetPath);
+  const base = targetPath.slice(0, targetPath.length - extension.length);
+  let suffix = 2;
+  let candidate = `${base} (${suffix})${extension}`;
+  while (await fs.pathExists(candidate)) {
+    suffix++;
+    candidate = `${base} (${suffix})${extension}`;
+  }
+  return candidate;
+}
+
+// Moves or copies one file, resolving an existing destination according to the policy
+export async function transferFile(
+  source: string,
+  target: string,
+  mode: TransferMode,
+  policy: ConflictPolicy,
+  fileName: string = path.basename(source),
+  operations: FileOperations = directFileOperations
+): Promise<FileDecision> {
+  // Replacing is done as remove + place so a journal can restore the previous file
+  const transfer = async (destination: string, overwrite: boolean): Promise<void> => {
+    if (overwrite) {
+      await operations.remove(destination);
+    }
+    await operations.place(source, destination, mode);
+  };
+
+  await operations.ensureDir(path.dirname(target));
+
+  if (!await fs.pathExists(target)) {
+    await transfer(target, false);
+    return { fileName, targetPath: target, decision: 'created' };
+  }
+
+  // A folder in the way can never be replaced by a single file
+  if ((await fs.stat(target)).isDirectory() && policy !== 'skip') {
+    const renamedPath = await getUniqueFilePath(target);
+    await transfer(renamedPath, false);
+    return { fileName, targetPath: renamedPath, decision: 'renamed' };
+  }
+
+  switch (policy) {
+    case 'skip':
+      return { fileName, targetPath: target, decision: 'skipped' };
+
+    case 'rename': {
+      const renamedPath = await getUniqueFilePath(target);
+      await transfer(renamedPath, false);
+      return { fileName, targetPath: renamedPath, decision: 'renamed' };
+    }
+
+    case 'newer': {
+      const [sourceStat, targetStat] = await Promise.all([fs.stat(source), fs.stat(target)]);
+      if (sourceStat.mtimeMs <= targetStat.mtimeMs) {
+        return { fileName, targetPath: target, decision: 'kept-existing' };
+      }
+      await transfer(target, true);
+      return { fileName, targetPath: target, decision: 'overwritten' };
+    }
+
+    case 'hash': {
+      if (await isSameContent(source, target)) {
+        return { fileName, targetPath: target, decision: 'identical' };
+      }
+      // Different content under the same name is kept side by side rather than lost
+      const renamedPath = await getUniqueFilePath(target);
+      await transfer(renamedPath, false);
+      return { fileName, targetPath: renamedPath, decision: 'renamed' };
+    }
+
+    default:
+      await transfer(target, true);
+      return { fileName, targetPath: target, decision: 'overwritten' };
+  }
+}
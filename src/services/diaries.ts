@@ -0,0 +1,95 @@
+// Registry of known publications, so every spelling of a name ends up in the same folder
+
+export interface DiaryEntry {
+  // Folder name used in the library
+  name: string;
+  // Other spellings; entries written as /.../ are regular expressions
+  aliases: string[];
+  // Publication years, inclusive; missing means unknown or still published
+  firstYear?: number;
+  lastYear?: number;
+}
+
+export interface DiaryRegistry {
+  resolve: (diary: string) => DiaryEntry | undefined;
+}
+
+const TRAILING_ARTICLE = /^(.+?),\s*(el|la|los|las|lo|o|a|os|as|the|els|les|l['’])$/i;
+
+// "Tercera, La", "LA TERCERA" and "La  Tercera." compare as "la tercera"
+export function normalizeDiaryName(name: string): string {
+  const trimmed = name.trim();
+  const article = TRAILING_ARTICLE.exec(trimmed);
+  const reordered = article ? `${article[2]} ${article[1]}` : trimmed;
+  return reordered
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+function parseAliasRegex(alias: string): RegExp | null {
+  const match = /^\/(.+)\/$/.exec(alias.trim());
+  return match ? new RegExp(match[1], 'iu') : null;
+}
+
+// Returns why an entry cannot be used, or null when it is valid
+export function validateDiaryEntry(entry: DiaryEntry): string | null {
+  if (!entry.name.trim()) {
+    return 'El diario necesita un nombre';
+  }
+  for (const alias of entry.aliases) {
+    try {
+      parseAliasRegex(alias);
+    } catch (error) {
+      return `Expresión no válida ${alias}: ${error instanceof Error ? error.message : error}`;
+    }
+  }
+  if (entry.firstYear && entry.lastYear && entry.firstYear > entry.lastYear) {
+    return 'El primer año de publicación es posterior al último';
+  }
+  return null;
+}
+
+export function createDiaryRegistry(entries: DiaryEntry[]): DiaryRegistry {
+  const names = new Map<string, DiaryEntry>();
+  const expressions: Array<{ regex: RegExp; entry: DiaryEntry }> = [];
+
+  entries.forEach(entry => {
+    const problem = validateDiaryEntry(entry);
+    if (problem) {
+      console.warn(`Skipping diary "${entry.name}": ${problem}`);
+      return;
+    }
+    // An earlier entry keeps a name claimed twice
+    [entry.name, ...entry.aliases].forEach(alias => {
+      const regex = parseAliasRegex(alias);
+      if (regex) {
+        expressions.push({ regex, entry });
+      } else if (alias.trim() && !names.has(normalizeDiaryName(alias))) {
+        names.set(normalizeDiaryName(alias), entry);
+      }
+    });
+  });
+
+  return {
+    resolve: diary => names.get(normalizeDiaryName(diary))
+      || expressions.find(expression => expression.regex.test(diary.trim()))?.entry
+  };
+}
+
+// Describes a date outside the years the publication existed, or returns null
+export function getPublicationWarning(entry: DiaryEntry, year: number): string | null {
+  const before = typeof entry.firstYear === 'number' && year < entry.firstYear;
+  const after = typeof entry.lastYear === 'number' && year > entry.lastYear;
+  if (!before && !after) {
+    return null;
+  }
+  const period = typeof entry.lastYear !== 'number'
+    ? `se publica desde ${entry.firstYear}`
+    : typeof entry.firstYear !== 'number'
+      ? `se publicó hasta ${entry.lastYear}`
+      : `se publicó entre ${entry.firstYear} y ${entry.lastYear}`;
+  return `${entry.name} ${period}; revisa el año ${year}`;
+}
@@ -0,0 +1,69 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+
+// Head-room left free on the destination volume; estimates ignore filesystem overhead
+export const DISK_SPACE_MARGIN_BYTES = 200 * 1024 * 1024;
+
+export interface DiskSpaceItem {
+  fileName: string;
+  estimatedSize: number;
+}
+
+export interface DiskSpacePlan {
+  required: number;
+  available: number;
+  fits: boolean;
+  // Items that fit when taken in order, skipping the ones that would overflow
+  fitting: string[];
+}
+
+// Folders that do not exist yet are created on the volume of their nearest existing parent
+export async function findExistingParent(targetPath: string): Promise<string> {
+  let current = path.resolve(targetPath);
+  while (!await fs.pathExists(current) && path.dirname(current) !== current) {
+    current = path.dirname(current);
+  }
+  return current;
+}
+
+// Returns the free bytes on the volume holding targetPath (or its nearest existing parent)
+export async function getFreeSpace(targetPath: string): Promise<number> {
+  const stats = await fs.promises.statfs(await findExistingParent(targetPath));
+  return stats.bavail * stats.bsize;
+}
+
+// Moves between folders on the same volume are renames; across volumes they become copies
+export async function isSameVolume(firstPath: string, secondPath: string): Promise<boolean> {
+  const [first, second] = await Promise.all([
+    fs.stat(await findExistingParent(firstPath)),
+    fs.stat(await findExistingParent(secondPath))
+  ]);
+  return first.dev === second.dev;
+}
+
+export function planDiskUsage(items: DiskSpaceItem[], freeSpace: number): DiskSpacePlan {
+  const available = Math.max(0, freeSpace - DISK_SPACE_MARGIN_BYTES);
+  const required = items.reduce((total, item) => total + item.estimatedSize, 0);
+  const fitting: string[] = [];
+  let used = 0;
+
+  for (const item of items) {
+    if (used + item.estimatedSize <= available) {
+      used += item.estimatedSize;
+      fitting.push(item.fileName);
+    }
+  }
+
+  return { required, available, fits: required <= available, fitting };
+}
+
+export function formatSize(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(unit === 0 ? 0 : 1).replace('.', ',')} ${units[unit]}`;
+}
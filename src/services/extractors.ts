@@ -0,0 +1,701 @@
+import * as path from 'path';
+import { spawn } from 'child_process';
+import { Readable } from 'stream';
+import * as fs from 'fs-extra';
+import {
+  extractZipArchive,
+  isZipEncrypted,
+  probeZipIntegrity,
+  readZipEntries,
+  testZipArchive,
+  METHOD_AES
+} from './zipExtractor';
+import { extractTarArchive, listTarEntries, testTarArchive } from './tarExtractor';
+import { ArchivePasswordError, CorruptArchiveError, UnsafeArchiveError } from './archiveErrors';
+import { validateEntryNames, verifyExtractedTree } from './archiveSafety';
+import { ArchivePhase, ArchiveProgress, ByteProgressCallback } from './progress';
+
+export interface ArchiveExtractor {
+  id: string;
+  label: string;
+  // Lowercase suffixes including the leading dot; compound suffixes such as ".tar.gz" are allowed
+  extensions: string[];
+  unavailableReason: string;
+  isAvailable: () => Promise<boolean>;
+  extract: (filePath: string, outputDir: string, options: ExtractOptions) => Promise<void>;
+  isEncrypted?: (filePath: string) => Promise<boolean>;
+  // Full integrity test (CRCs), run before extracting; throws CorruptArchiveError
+  test?: (filePath: string, options: ExtractOptions) => Promise<void>;
+  // Cheap structural check for previews; returns a problem description or null
+  probeIntegrity?: (filePath: string) => Promise<string | null>;
+  // Uncompressed size read from the archive headers, or null when the format hides it
+  estimateSize?: (filePath: string) => Promise<number | null>;
+  // Entry names without extracting, or null when listing would mean decompressing everything
+  listEntries?: (filePath: string) => Promise<string[] | null>;
+  // Whether the backend can follow the sibling volumes of a split archive from its first volume
+  supportsVolumes?: boolean;
+}
+
+export interface ExtractOptions {
+  password?: string;
+  onProgress?: ByteProgressCallback;
+}
+
+export interface ExtractArchiveOptions {
+  passwords?: string[];
+  multiVolume?: boolean;
+  test?: boolean;
+  onProgress?: (progress: ArchiveProgress) => void;
+}
+
+export interface ExtractorAvailability {
+  available: boolean;
+  reason?: string;
+}
+
+const SEVEN_ZIP_CANDIDATES = process.platform === 'win32'
+  ? ['7z', 'C:\\Program Files\\7-Zip\\7z.exe', 'C:\\Program Files (x86)\\7-Zip\\7z.exe']
+  : ['7z', '7zz', '7za'];
+
+// 7-Zip prints these when the password is missing or wrong (exit code 2)
+const SEVEN_ZIP_PASSWORD_PATTERN = /wrong password|can ?not open encrypted archive|data error in encrypted file/i;
+
+let sevenZipCommand: string | null = null;
+let systemTarAvailable = false;
+
+// Helper function to check whether a command can be spawned
+function canSpawn(command: string, args: string[]): Promise<boolean> {
+  return new Promise(resolve => {
+    const childProcess = spawn(command, args, {
+      windowsHide: true,
+      stdio: 'ignore'
+    });
+
+    childProcess.on('error', () => resolve(false));
+    childProcess.on('close', () => resolve(true));
+  });
+}
+
+async function findSevenZipCommand(): Promise<string | null> {
+  if (sevenZipCommand) {
+    return sevenZipCommand;
+  }
+
+  for (const candidate of SEVEN_ZIP_CANDIDATES) {
+    if (await canSpawn(candidate, ['i'])) {
+      sevenZipCommand = candidate;
+      return candidate;
+    }
+  }
+
+  return null;
+}
+
+interface CommandResult {
+  code: number | null;
+  output: string;
+}
+
+// stdin is closed so 7-Zip can never block waiting for an interactive password prompt
+function runSevenZip(command: string, args: string[], onOutput?: (text: string) => void): Promise<CommandResult> {
+  return new Promise((resolve, reject) => {
+    const childProcess = spawn(command, args, {
+      windowsHide: true,
+      stdio: ['ignore', 'pipe', 'pipe']
+    });
+
+    let output = '';
+
+    childProcess.stdout.on('data', (data) => {
+      const text = data.toString();
+      output += text;
+      onOutput?.(text);
+    });
+
+    childProcess.stderr.on('data', (data) => {
+      output += data.toString();
+    });
+
+    childProcess.on('close', (code: number | null) => {
+      resolve({ code, output });
+    });
+
+    childProcess.on('error', (error: Error) => {
+      reject(new Error(`Error ejecutando comando de extracción: ${error.message}`));
+    });
+  });
+}
+
+async function requireSevenZip(): Promise<string> {
+  const command = await findSevenZipCommand();
+  if (!command) {
+    throw new Error('Para extraer archivos .rar, .7z y .cbr necesitas instalar 7-Zip desde https://www.7-zip.org/');
+  }
+  return command;
+}
+
+function getPasswordError(output: string, options: ExtractOptions): ArchivePasswordError | null {
+  return SEVEN_ZIP_PASSWORD_PATTERN.test(output)
+    ? new ArchivePasswordError(options.password ? 'wrong' : 'required')
+    : null;
+}
+
+// Checks entry names and link attributes from the technical listing before anything is written;
+// returns the total uncompressed size so progress can be reported in bytes
+async function validateSevenZipEntries(command: string, filePath: string, options: ExtractOptions): Promise<number> {
+  const { code, output } = await runSevenZip(command, ['l', '-slt', `-p${options.password ?? ''}`, filePath]);
+
+  if (code !== 0) {
+    const passwordError = getPasswordError(output, options);
+    if (passwordError) {
+      throw passwordError;
+    }
+    // Without a listing the entry names can't be checked, so the archive is never extracted
+    throw new CorruptArchiveError(`no se pudo listar el contenido (${getSevenZipErrorDetail(output, code)})`);
+  }
+
+  // Entries follow the "----------" separator; the block before it describes the archive itself
+  const listing = output.split(/\r?\n-{10}\r?\n/)[1] || '';
+  const blocks = listing.split(/\r?\n\r?\n/);
+  const names: string[] = [];
+  let totalSize = 0;
+
+  for (const block of blocks) {
+    const name = /^Path = (.*)$/m.exec(block)?.[1];
+    if (!name) {
+      continue;
+    }
+
+    const attributes = /^Attributes = (.*)$/m.exec(block)?.[1] || '';
+    if (/^Symbolic Link = ./m.test(block) || /\bl[rwx-]{9}\b/.test(attributes)) {
+      throw new UnsafeArchiveError(name, 'es un enlace simbólico');
+    }
+
+    names.push(name);
+    totalSize += parseInt(/^Size = (\d+)$/m.exec(block)?.[1] || '0', 10);
+  }
+
+  validateEntryNames(names);
+  return totalSize;
+}
+
+// With -bsp1 7-Zip rewrites a "42% 7 - name" status line using backspaces
+function createSevenZipProgressParser(bytesTotal: number, onProgress?: ByteProgressCallback): ((text: string) => void) | undefined {
+  if (!onProgress) {
+    return undefined;
+  }
+
+  return text => {
+    const statuses = text.split(/[\b\r\n]+/).map(status => status.trim()).filter(status => /^\d+%/.test(status));
+    const status = statuses[statuses.length - 1];
+    if (!status) {
+      return;
+    }
+
+    const match = /^(\d+)%(?:\s+\d+)?(?:\s+[-+.U]\s+(.*))?$/.exec(status);
+    const percentage = match ? parseInt(match[1], 10) : 0;
+    onProgress({
+      bytesDone: Math.round(bytesTotal * percentage / 100),
+      bytesTotal,
+      currentEntry: match?.[2]
+    });
+  };
+}
+
+async function extractWithSevenZip(filePath: string, outputDir: string, options: ExtractOptions): Promise<void> {
+  const command = await requireSevenZip();
+  const totalSize = await validateSevenZipEntries(command, filePath, options);
+
+  // Always pass -p so an encrypted archive fails fast instead of prompting
+  const args = ['x', filePath, `-o${outputDir}`, '-y', '-bsp1', `-p${options.password ?? ''}`];
+  const { code, output } = await runSevenZip(command, args, createSevenZipProgressParser(totalSize, options.onProgress));
+
+  if (code === 0) {
+    return;
+  }
+
+  const passwordError = getPasswordError(output, options);
+  if (passwordError) {
+    throw passwordError;
+  }
+
+  throw new Error(`Error al extraer archivo: ${getSevenZipErrorDetail(output, code)}`);
+}
+
+function getSevenZipErrorDetail(output: string, code: number | null): string {
+  const detail = output.split(/\r?\n/).find(line => /^ERROR:/i.test(line.trim()));
+  return detail ? detail.trim() : `código de salida ${code}`;
+}
+
+async function testWithSevenZip(filePath: string, options: ExtractOptions): Promise<void> {
+  const command = await requireSevenZip();
+  // The archive size stands in for the total; 7-Zip only reports a percentage
+  const bytesTotal = options.onProgress ? (await fs.stat(filePath)).size : 0;
+  const { code, output } = await runSevenZip(
+    command,
+    ['t', filePath, '-bsp1', `-p${options.password ?? ''}`],
+    createSevenZipProgressParser(bytesTotal, options.onProgress)
+  );
+
+  if (code === 0) {
+    return;
+  }
+
+  const passwordError = getPasswordError(output, options);
+  if (passwordError) {
+    throw passwordError;
+  }
+
+  throw new CorruptArchiveError(getSevenZipErrorDetail(output, code));
+}
+
+async function probeSevenZipIntegrity(filePath: string): Promise<string | null> {
+  const command = await requireSevenZip();
+  const { code, output } = await runSevenZip(command, ['l', '-p', filePath]);
+
+  // Encrypted headers can't be listed without the password; that is not damage
+  if (code === 0 || SEVEN_ZIP_PASSWORD_PATTERN.test(output)) {
+    return null;
+  }
+
+  return getSevenZipErrorDetail(output, code);
+}
+
+async function estimateSevenZipSize(filePath: string): Promise<number | null> {
+  const command = await requireSevenZip();
+  const { code, output } = await runSevenZip(command, ['l', '-slt', '-p', filePath]);
+
+  // Encrypted headers hide the sizes too
+  if (code !== 0) {
+    return null;
+  }
+
+  const listing = output.split(/\r?\n-{10}\r?\n/)[1] || '';
+  return Array.from(listing.matchAll(/^Size = (\d+)$/gm))
+    .reduce((total, match) => total + parseInt(match[1], 10), 0);
+}
+
+async function listSevenZipEntries(filePath: string): Promise<string[] | null> {
+  const command = await requireSevenZip();
+  const { code, output } = await runSevenZip(command, ['l', '-slt', '-p', filePath]);
+
+  if (code !== 0) {
+    return null;
+  }
+
+  const listing = output.split(/\r?\n-{10}\r?\n/)[1] || '';
+  return Array.from(listing.matchAll(/^Path = (.*)$/gm)).map(match => match[1]);
+}
+
+async function isSevenZipEncrypted(filePath: string): Promise<boolean> {
+  const command = await requireSevenZip();
+  const { output } = await runSevenZip(command, ['l', '-slt', '-p', filePath]);
+
+  // Encrypted headers make the listing itself fail; otherwise each encrypted entry is flagged
+  return SEVEN_ZIP_PASSWORD_PATTERN.test(output) || /^Encrypted = \+/m.test(output);
+}
+
+async function isSystemTarAvailable(): Promise<boolean> {
+  // bsdtar ships with Windows 10+, macOS and every mainstream Linux distribution
+  if (!systemTarAvailable) {
+    systemTarAvailable = await canSpawn('tar', ['--version']);
+  }
+  return systemTarAvailable;
+}
+
+// When input is given it is piped to tar's stdin (use "-f -")
+function runSystemTar(args: string[], input?: Readable): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const childProcess = spawn('tar', args, {
+      windowsHide: true
+    });
+
+    if (input) {
+      input.on('error', (error) => {
+        childProcess.kill();
+        reject(error);
+      });
+      // tar may exit early on bad data; the broken pipe is reported through its exit code
+      childProcess.stdin.on('error', () => input.destroy());
+      input.pipe(childProcess.stdin);
+    }
+
+    let stdout = '';
+    let stderr = '';
+
+    childProcess.stdout.on('data', (data) => {
+      stdout += data.toString();
+    });
+
+    childProcess.stderr.on('data', (data) => {
+      stderr += data.toString();
+    });
+
+    childProcess.on('close', (code: number | null) => {
+      if (code === 0) {
+        resolve(stdout);
+      } else {
+        reject(new Error(`Error al extraer archivo TAR: ${stderr.trim() || 'código de salida ' + code}`));
+      }
+    });
+
+    childProcess.on('error', (error: Error) => {
+      reject(new Error(`Error ejecutando comando tar: ${error.message}`));
+    });
+  });
+}
+
+// Feeds the archive through stdin so progress can be measured on the bytes read
+async function openTrackedInput(filePath: string, onProgress?: ByteProgressCallback): Promise<Readable> {
+  const bytesTotal = (await fs.stat(filePath)).size;
+  const input = fs.createReadStream(filePath);
+  let bytesDone = 0;
+
+  if (onProgress) {
+    input.on('data', chunk => {
+      bytesDone += chunk.length;
+      onProgress({ bytesDone, bytesTotal });
+    });
+  }
+
+  return input;
+}
+
+async function extractWithSystemTar(filePath: string, outputDir: string, options: ExtractOptions): Promise<void> {
+  // tar strips unsafe names with a warning; we want to reject the archive instead
+  const listing = await runSystemTar(['-tjf', filePath]);
+  validateEntryNames(listing.split(/\r?\n/).filter(Boolean));
+
+  await runSystemTar(['-xjf', '-', '-C', outputDir], await openTrackedInput(filePath, options.onProgress));
+}
+
+async function testWithSystemTar(filePath: string, options: ExtractOptions): Promise<void> {
+  try {
+    await runSystemTar(['-tjf', '-'], await openTrackedInput(filePath, options.onProgress));
+  } catch (error) {
+    throw new CorruptArchiveError(error instanceof Error ? error.message : 'Error desconocido');
+  }
+}
+
+// Helper function to compare the first bytes of a file with a known signature
+async function hasSignature(filePath: string, signature: Buffer): Promise<boolean> {
+  const handle = await fs.promises.open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(signature.length);
+    const { bytesRead } = await handle.read(buffer, 0, signature.length, 0);
+    return bytesRead === signature.length && buffer.equals(signature);
+  } finally {
+    await handle.close();
+  }
+}
+
+async function probeTarIntegrity(filePath: string): Promise<string | null> {
+  if (isGzipTar(filePath)) {
+    return await hasSignature(filePath, Buffer.from([0x1f, 0x8b])) ? null : 'no es un archivo gzip válido';
+  }
+
+  // Plain tar archives are made of whole 512-byte blocks
+  const { size } = await fs.stat(filePath);
+  return size > 0 && size % 512 === 0 ? null : 'el archivo TAR está incompleto';
+}
+
+// Every extension of the bzip2 extractor (.tar.bz2, .tbz2, .tbz) is compressed, so the name needs no check
+async function probeBzip2TarIntegrity(filePath: string): Promise<string | null> {
+  return await hasSignature(filePath, Buffer.from('BZh', 'ascii')) ? null : 'no es un archivo bzip2 válido';
+}
+
+async function estimateTarSize(filePath: string): Promise<number | null> {
+  const { size } = await fs.stat(filePath);
+
+  if (!isGzipTar(filePath)) {
+    return size;
+  }
+
+  // The gzip trailer stores the uncompressed size modulo 2^32
+  const handle = await fs.promises.open(filePath, 'r');
+  try {
+    const trailer = Buffer.alloc(4);
+    const { bytesRead } = await handle.read(trailer, 0, 4, Math.max(0, size - 4));
+    if (bytesRead < 4) {
+      return null;
+    }
+    const isize = trailer.readUInt32LE(0);
+    // Archives over 4 GB wrap around; never estimate below the compressed size
+    return isize >= size ? isize : null;
+  } finally {
+    await handle.close();
+  }
+}
+
+function isGzipTar(filePath: string): boolean {
+  const lowerName = filePath.toLowerCase();
+  return lowerName.endsWith('.gz') || lowerName.endsWith('.tgz');
+}
+
+async function testTarFile(filePath: string, options: ExtractOptions): Promise<void> {
+  await testTarArchive(filePath, { gzip: isGzipTar(filePath), onProgress: options.onProgress });
+}
+
+async function testZipFile(filePath: string, options: ExtractOptions): Promise<void> {
+  const entries = await readZipEntries(filePath);
+  const usesAes = entries.some(entry => entry.isEncrypted && entry.compressionMethod === METHOD_AES);
+  if (usesAes && await findSevenZipCommand()) {
+    return testWithSevenZip(filePath, options);
+  }
+
+  try {
+    await testZipArchive(filePath, { password: options.password, onProgress: options.onProgress });
+  } catch (error) {
+    if (error instanceof ArchivePasswordError || error instanceof CorruptArchiveError) {
+      throw error;
+    }
+    throw new CorruptArchiveError(error instanceof Error ? error.message : 'Error desconocido');
+  }
+}
+
+async function extractTarFile(filePath: string, outputDir: string, options: ExtractOptions): Promise<void> {
+  try {
+    await extractTarArchive(filePath, outputDir, { gzip: isGzipTar(filePath), onProgress: options.onProgress });
+  } catch (error) {
+    if (error instanceof UnsafeArchiveError || error instanceof CorruptArchiveError) {
+      throw error;
+    }
+    throw new Error(`Error al extraer archivo TAR: ${error instanceof Error ? error.message : 'Error desconocido'}`);
+  }
+}
+
+async function extractZipFile(filePath: string, outputDir: string, options: ExtractOptions): Promise<void> {
+  // The built-in reader handles ZipCrypto; WinZip AES entries are delegated to 7-Zip when present
+  const entries = await readZipEntries(filePath);
+  const usesAes = entries.some(entry => entry.isEncrypted && entry.compressionMethod === METHOD_AES);
+  if (usesAes && await findSevenZipCommand()) {
+    return extractWithSevenZip(filePath, outputDir, options);
+  }
+
+  // Built-in reader: works on every OS without PowerShell or 7-Zip
+  try {
+    await extractZipArchive(filePath, outputDir, { password: options.password, onProgress: options.onProgress });
+  } catch (error) {
+    if (error instanceof ArchivePasswordError || error instanceof UnsafeArchiveError || error instanceof CorruptArchiveError) {
+      throw error;
+    }
+    throw new Error(`Error al extraer archivo ZIP: ${error instanceof Error ? error.message : 'Error desconocido'}`);
+  }
+}
+
+const zipExtractor: ArchiveExtractor = {
+  id: 'zip',
+  label: 'ZIP (integrado)',
+  // CBZ comic-book archives are plain ZIP files
+  extensions: ['.zip', '.cbz'],
+  unavailableReason: '',
+  isAvailable: async () => true,
+  extract: extractZipFile,
+  isEncrypted: async (filePath: string) => isZipEncrypted(await readZipEntries(filePath)),
+  test: testZipFile,
+  probeIntegrity: probeZipIntegrity,
+  estimateSize: async (filePath: string) => (await readZipEntries(filePath))
+    .reduce((total, entry) => total + entry.uncompressedSize, 0),
+  listEntries: async (filePath: string) => (await readZipEntries(filePath)).map(entry => entry.fileName)
+};
+
+const sevenZipExtractor: ArchiveExtractor = {
+  id: '7z',
+  label: '7-Zip',
+  // CBR comic-book archives are RAR files; 7-Zip detects the format from the signature
+  extensions: ['.rar', '.7z', '.cbr'],
+  unavailableReason: 'No se puede extraer: falta 7-Zip',
+  isAvailable: async () => (await findSevenZipCommand()) !== null,
+  extract: extractWithSevenZip,
+  isEncrypted: isSevenZipEncrypted,
+  test: testWithSevenZip,
+  probeIntegrity: probeSevenZipIntegrity,
+  estimateSize: estimateSevenZipSize,
+  listEntries: listSevenZipEntries,
+  supportsVolumes: true
+};
+
+const tarExtractor: ArchiveExtractor = {
+  id: 'tar',
+  label: 'TAR (integrado)',
+  extensions: ['.tar', '.tar.gz', '.tgz'],
+  unavailableReason: '',
+  isAvailable: async () => true,
+  extract: extractTarFile,
+  test: testTarFile,
+  probeIntegrity: probeTarIntegrity,
+  estimateSize: estimateTarSize,
+  listEntries: async (filePath: string) => isGzipTar(filePath) ? null : listTarEntries(filePath)
+};
+
+// Node has no bzip2 decoder, so .tar.bz2 goes through the system tar binary
+const bzip2TarExtractor: ArchiveExtractor = {
+  id: 'tar-bz2',
+  label: 'TAR + bzip2 (sistema)',
+  extensions: ['.tar.bz2', '.tbz2', '.tbz'],
+  unavailableReason: 'No se puede extraer: falta el comando tar del sistema',
+  isAvailable: isSystemTarAvailable,
+  extract: extractWithSystemTar,
+  test: testWithSystemTar,
+  probeIntegrity: probeBzip2TarIntegrity
+};
+
+// Order matters: the first extractor that claims an extension wins
+const EXTRACTORS: ArchiveExtractor[] = [
+  zipExtractor,
+  sevenZipExtractor,
+  tarExtractor,
+  bzip2TarExtractor
+];
+
+function getMatchingExtension(fileName: string, extractor: ArchiveExtractor): string | undefined {
+  const lowerName = fileName.toLowerCase();
+  return extractor.extensions
+    .filter(extension => lowerName.endsWith(extension))
+    .sort((a, b) => b.length - a.length)[0];
+}
+
+export function findExtractor(fileName: string): ArchiveExtractor | undefined {
+  return EXTRACTORS.find(extractor => getMatchingExtension(fileName, extractor) !== undefined);
+}
+
+export function findVolumeExtractor(): ArchiveExtractor | undefined {
+  return EXTRACTORS.find(extractor => extractor.supportsVolumes);
+}
+
+export function isSupportedArchive(fileName: string): boolean {
+  return findExtractor(fileName) !== undefined;
+}
+
+// Strips the archive suffix (including compound ones like ".tar.gz") from a file name
+export function getArchiveBaseName(fileName: string): string {
+  const baseName = path.basename(fileName);
+  const extractor = findExtractor(baseName);
+  const extension = extractor ? getMatchingExtension(baseName, extractor) : undefined;
+
+  if (extension) {
+    return baseName.slice(0, baseName.length - extension.length);
+  }
+
+  return path.basename(baseName, path.extname(baseName));
+}
+
+export async function getExtractorAvailability(extractor: ArchiveExtractor): Promise<ExtractorAvailability> {
+  const available = await extractor.isAvailable();
+  return available ? { available } : { available, reason: extractor.unavailableReason };
+}
+
+function resolveExtractor(filePath: string, multiVolume = false): ArchiveExtractor {
+  const extractor = multiVolume ? findVolumeExtractor() : findExtractor(filePath);
+  if (!extractor) {
+    throw new Error(`Formato de archivo no soportado: ${path.extname(filePath).toLowerCase()}`);
+  }
+  return extractor;
+}
+
+export async function isArchiveEncrypted(filePath: string, multiVolume = false): Promise<boolean> {
+  const extractor = multiVolume ? findVolumeExtractor() : findExtractor(filePath);
+  if (!extractor || !extractor.isEncrypted || !(await extractor.isAvailable())) {
+    return false;
+  }
+
+  try {
+    return await extractor.isEncrypted(filePath);
+  } catch (error) {
+    console.warn(`Could not check encryption for ${filePath}:`, error);
+    return false;
+  }
+}
+
+export async function probeArchiveIntegrity(filePath: string, multiVolume = false): Promise<string | null> {
+  const extractor = multiVolume ? findVolumeExtractor() : findExtractor(filePath);
+  if (!extractor || !extractor.probeIntegrity || !(await extractor.isAvailable())) {
+    return null;
+  }
+
+  try {
+    return await extractor.probeIntegrity(filePath);
+  } catch (error) {
+    console.warn(`Could not probe integrity of ${filePath}:`, error);
+    return null;
+  }
+}
+
+function withPhase(phase: ArchivePhase, onProgress?: (progress: ArchiveProgress) => void): ByteProgressCallback | undefined {
+  return onProgress && (progress => onProgress({ ...progress, phase }));
+}
+
+export async function listArchiveEntries(filePath: string, multiVolume = false): Promise<string[] | null> {
+  const extractor = multiVolume ? findVolumeExtractor() : findExtractor(filePath);
+  if (!extractor || !extractor.listEntries || !(await extractor.isAvailable())) {
+    return null;
+  }
+
+  try {
+    return await extractor.listEntries(filePath);
+  } catch (error) {
+    console.warn(`Could not list entries of ${filePath}:`, error);
+    return null;
+  }
+}
+
+// Falls back to the compressed size (a lower bound) when the headers don't tell
+export async function estimateExtractedSize(filePath: string, volumes: string[], multiVolume = false): Promise<{ size: number; exact: boolean }> {
+  const extractor = multiVolume ? findVolumeExtractor() : findExtractor(filePath);
+
+  if (extractor?.estimateSize && await extractor.isAvailable()) {
+    try {
+      const size = await extractor.estimateSize(filePath);
+      if (size !== null) {
+        return { size, exact: true };
+      }
+    } catch (error) {
+      console.warn(`Could not estimate extracted size of ${filePath}:`, error);
+    }
+  }
+
+  let size = 0;
+  for (const volume of volumes) {
+    size += (await fs.stat(volume)).size;
+  }
+  return { size, exact: false };
+}
+
+async function testAndExtract(extractor: ArchiveExtractor, filePath: string, outputDir: string, password: string | undefined, options: ExtractArchiveOptions): Promise<void> {
+  if (options.test && extractor.test) {
+    await extractor.test(filePath, { password, onProgress: withPhase('testing', options.onProgress) });
+  }
+  await extractor.extract(filePath, outputDir, { password, onProgress: withPhase('extracting', options.onProgress) });
+  await verifyExtractedTree(outputDir);
+}
+
+// Tries each candidate password in order; the output directory is emptied between attempts
+export async function extractArchive(filePath: string, outputDir: string, options: ExtractArchiveOptions = {}): Promise<void> {
+  const extractor = resolveExtractor(filePath, options.multiVolume);
+
+  const availability = await getExtractorAvailability(extractor);
+  if (!availability.available) {
+    throw new Error(availability.reason);
+  }
+
+  const candidates = Array.from(new Set((options.passwords || []).filter(Boolean)));
+  const encrypted = candidates.length > 0 && await isArchiveEncrypted(filePath, options.multiVolume);
+
+  if (!encrypted) {
+    return testAndExtract(extractor, filePath, outputDir, undefined, options);
+  }
+
+  for (const password of candidates) {
+    try {
+      await testAndExtract(extractor, filePath, outputDir, password, options);
+      return;
+    } catch (error) {
+      if (!(error instanceof ArchivePasswordError)) {
+        throw error;
+      }
+      await fs.emptyDir(outputDir);
+    }
+  }
+
+  throw new ArchivePasswordError('wrong', `Contraseña incorrecta (se probaron ${candidates.length})`);
+}
@@ -1,45 +1,69 @@
 import * as fs from 'fs-extra';
 import * as path from 'path';
-import { spawn } from 'child_process';
 import * as os from 'os';
-
-const MONTH_NAMES = [
-  '', 'Enero', 'Febrero', 'Marzo', 'Abril', 'Mayo', 'Junio',
-  'Julio', 'Agosto', 'Septiembre', 'Octubre', 'Noviembre', 'Diciembre'
-];
-
-const MONTH_NAMES_LOWER = [
-  '', 'enero', 'febrero', 'marzo', 'abril', 'mayo', 'junio',
-  'julio', 'agosto', 'septiembre', 'octubre', 'noviembre', 'diciembre'
-];
-
-const SPANISH_MONTHS_MAP: Record<string, number> = {
-  enero: 1,
-  febrero: 2,
-  marzo: 3,
-  abril: 4,
-  mayo: 5,
-  junio: 6,
-  julio: 7,
-  agosto: 8,
-  septiembre: 9,
-  setiembre: 9,
-  octubre: 10,
-  noviembre: 11,
-  diciembre: 12,
-  ene: 1,
-  feb: 2,
-  mar: 3,
-  abr: 4,
-  may: 5,
-  jun: 6,
-  jul: 7,
-  ago: 8,
-  sep: 9,
-  oct: 10,
-  nov: 11,
-  dic: 12,
-};
+import {
+  ArchiveExtractor,
+  extractArchive,
+  findExtractor,
+  findVolumeExtractor,
+  getArchiveBaseName,
+  getExtractorAvailability,
+  isArchiveEncrypted,
+  estimateExtractedSize,
+  isSupportedArchive,
+  listArchiveEntries,
+  probeArchiveIntegrity
+} from './extractors';
+import { checkVolumeSetEnd, groupVolumes } from './volumes';
+import { ArchivePasswordError, CorruptArchiveError, UnsafeArchiveError } from './archiveErrors';
+import { ArchivePhase, ArchiveProgress, ByteProgressCallback } from './progress';
+import { JobCancelledError, JobControl } from './jobControl';
+import { DiskSpaceItem, DiskSpacePlan, formatSize, getFreeSpace, isSameVolume, planDiskUsage } from './diskSpace';
+import { findContentRoot, planUnwrap, UnwrapMode, UnwrapPlan } from './unwrap';
+import { ConflictPolicy, FileDecision, transferFile } from './conflicts';
+import { FileOperations, Journal, openJournal, RollbackScope, TransferMode, undoJob, UndoOutcome } from './journal';
+import {
+  DuplicatePolicy,
+  FingerprintRecord,
+  FingerprintStore,
+  getArchiveSize,
+  hashArchive,
+  hashFile,
+  openFingerprintStore
+} from './fingerprints';
+import { createJobWorkspace, JobWorkspace } from './workspace';
+import {
+  CompiledPattern,
+  compilePattern,
+  compilePatterns,
+  DEFAULT_FILENAME_PATTERNS,
+  FilenamePattern,
+  matchPattern,
+  PatternCaptures
+} from './filenamePatterns';
+import {
+  DEFAULT_LOCALE_SETTINGS,
+  findDateCorrection,
+  findDatePhrase,
+  getLocalePack,
+  getLocalePacks,
+  getMonthName,
+  getWeekdayWarning,
+  LocaleId,
+  LocalePack,
+  LocaleSettings,
+  parseMonthName
+} from './locales';
+import { isValidDate } from './calendar';
+import { createDiaryRegistry, DiaryEntry, DiaryRegistry, getPublicationWarning } from './diaries';
+import {
+  DEFAULT_METADATA_FOLDERS,
+  extractIssueMetadata,
+  getMetadataFolders,
+  IssueMetadata,
+  MetadataField,
+  parseIssueNumber
+} from './metadata';
 
 // Helper function to get Dropbox path
 function getDropboxPath(): string {
@@ -83,6 +107,10 @@ export interface ProcessingProgress {
   currentFile: string;
   status: string;
   percentage: number;
+  // Progress inside currentFile, when a byte-level phase is running
+  archive?: ArchiveProgress;
+  // Archives being processed right now; several when running concurrently
+  activeFiles?: string[];
 }
 
 export interface ProcessingResult {
@@ -91,10 +119,129 @@ export interface ProcessingResult {
   errors: string[];
   error?: string;
   destinations: string[];
+  nestedLevels?: number;
+  nestedArchives?: number;
+  passwordErrors?: string[];
+  // Set when the user cancelled; pending lists the files that were never started
+  cancelled?: boolean;
+  pending?: string[];
+  // What happened to every file that reached its destination folder
+  decisions?: FileDecision[];
+  // Archives skipped because their content had been imported before
+  alreadyImported?: AlreadyImported[];
+  // Archives (or files) whose changes were undone after a failure
+  rolledBack?: string[];
+  // Set when a failure undid the whole batch, including the items that had succeeded
+  batchRolledBack?: boolean;
+  // One entry per selected file, for reports
+  items?: ResultItem[];
+}
+
+export type ResultOutcome = 'processed' | 'already-imported' | 'failed' | 'rolled-back' | 'pending';
+
+export interface ResultItem {
+  fileName: string;
+  outcome: ResultOutcome;
+  diary?: string;
+  // YYYY-MM-DD, or YYYY-MM when the name has no day
+  date?: string;
+  targetPath?: string;
+  error?: string;
+}
+
+export interface AlreadyImported {
+  fileName: string;
+  // Destination of the earlier import, relative to the Archivos folder
+  destination: string;
+  importedAt: string;
+}
+
+export interface ProcessingOptions {
+  deleteOriginals: boolean;
+  useDateFolder: boolean;
+  extractNested: boolean;
+  maxNestedDepth: number;
+  // Run a full integrity test before extracting (and therefore before deleting originals)
+  testArchives: boolean;
+  // How many archives are extracted at the same time
+  concurrency: number;
+  // Whether lone wrapper folders are skipped before moving the contents into place
+  unwrapMode: UnwrapMode;
+  // What to do with files that already exist in the destination
+  conflictPolicy: ConflictPolicy;
+  // Whether archives found in the fingerprint store are imported again
+  duplicatePolicy: DuplicatePolicy;
+  // Folder where archives are extracted before being moved into the library
+  workspaceRoot: string;
+  // Where the operation journal is written before every change to the library
+  journalDir: string;
+  // Naming rules, by priority, that turn an archive name into diary and date
+  filenamePatterns: FilenamePattern[];
+  locales: LocaleSettings;
+  // Edition, supplement or issue number that get their own subfolder under the diary
+  metadataFolders: MetadataField[];
+  // Known publications; names found there go to the canonical folder
+  diaries: DiaryEntry[];
+  rollbackScope: RollbackScope;
+  // Per-archive passwords typed in the preview, keyed by file name
+  passwords: Record<string, string>;
+  // Saved passwords, tried automatically after the per-archive one
+  knownPasswords: string[];
+}
+
+export const DEFAULT_MAX_NESTED_DEPTH = 3;
+
+// Extraction is mostly disk-bound, so a few workers are enough even on large machines
+export const DEFAULT_CONCURRENCY = Math.max(1, Math.min(os.cpus().length - 1, 4));
+
+interface NestedExtractionSummary {
+  levels: number;
+  archives: number;
+  skipped: string[];
+}
+
+// One processable archive: a single file, or every volume of a multi-volume set
+interface ArchiveUnit {
+  fileName: string;
+  filePath: string;
+  baseName: string;
+  volumes: string[];
+  missingVolumes: string[];
+  multiVolume: boolean;
+  // Set when the last volume present may not be the end of the set
+  lastVolumeUnconfirmed?: boolean;
+}
+
+interface FileProcessingOutcome {
+  destination: string;
+  nested: NestedExtractionSummary;
+  decisions: FileDecision[];
+  // Earlier import with the same content, when the archive was skipped because of it
+  duplicateOf?: FingerprintRecord;
+  // Record added for this import, removed again if the batch is rolled back
+  fingerprint?: FingerprintRecord;
 }
 
 type ProgressCallback = (progress: ProcessingProgress) => void;
 
+const PHASE_STATUS: Record<ArchivePhase, string> = {
+  hashing: 'Comprobando si ya se importó...',
+  testing: 'Verificando integridad...',
+  extracting: 'Extrayendo...',
+  moving: 'Moviendo archivos...',
+  cleaning: 'Limpiando archivos temporales...'
+};
+
+const ARCHIVE_PROGRESS_INTERVAL_MS = 100;
+
+export interface DateProcessingOptions {
+  mode: TransferMode;
+  conflictPolicy: ConflictPolicy;
+  journalDir: string;
+  rollbackScope: RollbackScope;
+  locales: LocaleSettings;
+}
+
 export interface PreviewItem {
   fileName: string;
   willProcess: boolean;
@@ -103,13 +250,38 @@ export interface PreviewItem {
   reason?: string;
   parsedInfo?: FileInfo;
   dateFolderName?: string;
+  encrypted?: boolean;
+  corrupt?: boolean;
+  estimatedSize?: number;
+  // Structure the destination will get, when the archive can be listed without extracting
+  structure?: UnwrapPlan;
+  // Earlier import of this exact archive, found in the fingerprint store
+  alreadyImported?: AlreadyImported;
+  // Files (relative to the destination) that already exist there
+  conflicts?: string[];
+  // Set when the contents could not be listed but the destination folder already has files
+  targetHasFiles?: boolean;
+  volumes?: string[];
+  missingVolumes?: string[];
+  lastVolumeUnconfirmed?: boolean;
+}
+
+// A file left out because its date is almost right, with the name that would fix it
+export interface FileNameSuggestion {
+  fileName: string;
+  filePath: string;
+  suggestedName: string;
+  reason: string;
 }
 
 export interface PreviewResult {
   success: boolean;
   items: PreviewItem[];
+  suggestions: FileNameSuggestion[];
   totalFiles: number;
   processableFiles: number;
+  // Space check for every processable archive; estimated marks sizes guessed from the compressed files
+  diskSpace?: DiskSpacePlan & { estimated: boolean };
   error?: string;
 }
 
@@ -117,11 +289,16 @@ export interface DatePreviewItem {
   fileName: string;
   targetPath: string;
   targetPathLabel: string;
+  // A file with the same name is already in the target folder
+  conflict?: boolean;
+  // Set when the weekday in the name does not match the date
+  warning?: string;
 }
 
 export interface DatePreviewResult {
   success: boolean;
   items: DatePreviewItem[];
+  suggestions: FileNameSuggestion[];
   totalFiles: number;
   processableFiles: number;
   error?: string;
@@ -129,11 +306,20 @@ export interface DatePreviewResult {
 
 export async function previewFiles(
   inputPath: string,
-  useDateFolder: boolean
+  useDateFolder: boolean,
+  unwrapMode: UnwrapMode = 'off',
+  filenamePatterns: FilenamePattern[] = DEFAULT_FILENAME_PATTERNS,
+  locales: LocaleSettings = DEFAULT_LOCALE_SETTINGS,
+  diaries: DiaryEntry[] = [],
+  metadataFolders: MetadataField[] = DEFAULT_METADATA_FOLDERS
 ): Promise<PreviewResult> {
+  const parseFileName = createFileNameParser(filenamePatterns, locales.parse, diaries);
+  const layout: TargetLayout = { useDateFolder, locales, metadataFolders };
+  const packs = getLocalePacks(locales.parse);
   const result: PreviewResult = {
     success: false,
     items: [],
+    suggestions: [],
     totalFiles: 0,
     processableFiles: 0
   };
@@ -157,31 +343,97 @@ export async function previewFiles(
     const allFiles = await getAllFiles(inputPath);
     result.totalFiles = allFiles.length;
 
+    const sizeItems: DiskSpaceItem[] = [];
+    let allSizesExact = true;
+
+    let fingerprints: FingerprintStore | null = null;
+    try {
+      fingerprints = await openFingerprintStore(archivosPath);
+    } catch (error) {
+      console.warn('Could not read the fingerprint store:', error);
+    }
+
     // Filter only supported archives that can be processed
-    for (const file of allFiles) {
-      const fileName = path.basename(file);
-      const extension = path.extname(fileName).toLowerCase();
-      const supportedExtensions = ['.zip', '.rar', '.7z'];
-
-      // Only process files with supported extensions and valid nomenclature
-      if (supportedExtensions.includes(extension)) {
-        const fileInfo = parseFileName(fileName);
-        if (fileInfo) {
-          const targetInfo = buildTargetInfo(archivosPath, fileInfo, useDateFolder);
-
-          const item: PreviewItem = {
-            fileName,
-            willProcess: true,
-            targetPath: targetInfo.fullPath,
-            targetPathLabel: targetInfo.label,
-            parsedInfo: fileInfo,
-            dateFolderName: targetInfo.dateFolderName
-          };
-
-          result.items.push(item);
-          result.processableFiles++;
+    for (const unit of await collectArchiveUnits(allFiles)) {
+      // Only process files with valid nomenclature
+      const fileInfo = parseFileName(unit.baseName);
+      if (!fileInfo) {
+        // Renaming one volume would break a set, so only single archives get a suggestion
+        const suggestion = unit.multiVolume
+          ? null
+          : suggestFileName(unit.filePath, unit.baseName, packs, name => parseFileName(name) !== null);
+        if (suggestion) {
+          result.suggestions.push(suggestion);
+        }
+        continue;
+      }
+
+      const targetInfo = buildTargetInfo(archivosPath, fileInfo, layout);
+      const availability = await getUnitAvailability(unit);
+      const complete = unit.missingVolumes.length === 0;
+      const readable = availability.available && complete;
+      const integrityProblem = readable ? await probeArchiveIntegrity(unit.filePath, unit.multiVolume) : null;
+
+      const item: PreviewItem = {
+        fileName: unit.fileName,
+        willProcess: readable && !integrityProblem,
+        targetPath: targetInfo.fullPath,
+        targetPathLabel: targetInfo.label,
+        reason: !complete
+          ? `Faltan volúmenes: ${unit.missingVolumes.join(', ')}`
+          : integrityProblem
+            ? `Archivo dañado: ${integrityProblem}`
+            : availability.reason,
+        parsedInfo: fileInfo,
+        dateFolderName: targetInfo.dateFolderName,
+        encrypted: readable && !integrityProblem
+          ? await isArchiveEncrypted(unit.filePath, unit.multiVolume)
+          : undefined,
+        corrupt: integrityProblem ? true : undefined
+      };
+
+      if (unit.multiVolume) {
+        item.volumes = unit.volumes.map(volume => path.basename(volume));
+        item.missingVolumes = unit.missingVolumes;
+        item.lastVolumeUnconfirmed = unit.lastVolumeUnconfirmed;
+      }
+
+      if (item.willProcess) {
+        const estimate = await estimateExtractedSize(unit.filePath, unit.volumes, unit.multiVolume);
+        item.estimatedSize = estimate.size;
+        allSizesExact = allSizesExact && estimate.exact;
+        sizeItems.push({ fileName: unit.fileName, estimatedSize: estimate.size });
+
+        // Only archives with the size of an earlier import are worth hashing
+        if (fingerprints && fingerprints.hasArchiveSize(await getArchiveSize(unit.volumes))) {
+          const known = fingerprints.findByArchive(await hashArchive(unit.volumes));
+          if (known) {
+            item.alreadyImported = { fileName: known.fileName, destination: known.destination, importedAt: known.importedAt };
+          }
+        }
+
+        const entryNames = await listArchiveEntries(unit.filePath, unit.multiVolume);
+        if (entryNames) {
+          item.structure = planUnwrap(entryNames, unwrapMode);
+          item.conflicts = await findConflicts(targetInfo.fullPath, entryNames, item.structure.unwrapped.length);
+        } else {
+          item.targetHasFiles = await hasFiles(targetInfo.fullPath);
         }
       }
+
+      result.items.push(item);
+      if (item.willProcess) {
+        result.processableFiles++;
+      }
+    }
+
+    if (sizeItems.length > 0) {
+      try {
+        const plan = planDiskUsage(sizeItems, await getFreeSpace(archivosPath));
+        result.diskSpace = { ...plan, estimated: !allSizesExact };
+      } catch (error) {
+        console.warn('Could not check free disk space:', error);
+      }
     }
 
     result.success = true;
@@ -194,6 +446,66 @@ export async function previewFiles(
   }
 }
 
+// Entry names are stripped of the wrapper folders that will be skipped before checking the destination
+async function findConflicts(targetDir: string, entryNames: string[], unwrappedDepth: number): Promise<string[]> {
+  const conflicts: string[] = [];
+  for (const entryName of entryNames) {
+    const segments = entryName.replace(/\\/g, '/').split('/').filter(Boolean).slice(unwrappedDepth);
+    if (segments.length === 0) {
+      continue;
+    }
+    const relativePath = segments.join('/');
+    const targetPath = path.join(targetDir, ...segments);
+    if (await fs.pathExists(targetPath) && (await fs.stat(targetPath)).isFile()) {
+      conflicts.push(relativePath);
+    }
+  }
+  return conflicts;
+}
+
+async function hasFiles(dirPath: string): Promise<boolean> {
+  return await fs.pathExists(dirPath) && (await fs.readdir(dirPath)).length > 0;
+}
+
+async function collectArchiveUnits(filePaths: string[]): Promise<ArchiveUnit[]> {
+  const { sets, singles } = groupVolumes(filePaths);
+  const units: ArchiveUnit[] = [];
+
+  for (const set of await Promise.all(sets.map(checkVolumeSetEnd))) {
+    units.push({
+      fileName: path.basename(set.entryPath),
+      filePath: set.entryPath,
+      baseName: set.baseName,
+      volumes: set.volumes,
+      missingVolumes: set.missing,
+      multiVolume: true,
+      lastVolumeUnconfirmed: set.unconfirmedEnd
+    });
+  }
+
+  for (const filePath of singles) {
+    if (isSupportedArchive(filePath)) {
+      units.push({
+        fileName: path.basename(filePath),
+        filePath,
+        baseName: getArchiveBaseName(filePath),
+        volumes: [filePath],
+        missingVolumes: [],
+        multiVolume: false
+      });
+    }
+  }
+
+  return units.sort((a, b) => a.fileName.localeCompare(b.fileName));
+}
+
+async function getUnitAvailability(unit: ArchiveUnit): Promise<{ available: boolean; reason?: string }> {
+  const extractor: ArchiveExtractor | undefined = unit.multiVolume
+    ? findVolumeExtractor()
+    : findExtractor(unit.filePath);
+  return extractor ? getExtractorAvailability(extractor) : { available: false };
+}
+
 async function getAllFiles(dirPath: string): Promise<string[]> {
   const files: string[] = [];
 
@@ -215,15 +527,25 @@ async function getAllFiles(dirPath: string): Promise<string[]> {
 export async function processFiles(
   inputPath: string, 
   selectedFiles: string[],
-  deleteOriginals: boolean,
-  useDateFolder: boolean,
-  onProgress: ProgressCallback
+  options: ProcessingOptions,
+  onProgress: ProgressCallback,
+  control?: JobControl
 ): Promise<ProcessingResult> {
+  const { deleteOriginals } = options;
+  let workspace: JobWorkspace | null = null;
+  let journal: Journal | null = null;
   const result: ProcessingResult = {
     success: false,
     processed: 0,
     errors: [],
-    destinations: []
+    destinations: [],
+    nestedLevels: 0,
+    nestedArchives: 0,
+    passwordErrors: [],
+    decisions: [],
+    rolledBack: [],
+    alreadyImported: [],
+    items: []
   };
 
   try {
@@ -241,19 +563,41 @@ export async function processFiles(
     // Always use Dropbox/Archivos as destination
     const archivosPath = path.join(dropboxPath, 'Archivos');
 
-    // Get all files in input directory
-    const allFiles = await getFilesToProcess(inputPath);
+    // Get all archives in input directory
+    const parseFileName = createFileNameParser(options.filenamePatterns, options.locales.parse, options.diaries);
+    const allUnits = await getFilesToProcess(inputPath, parseFileName);
     
     // Filter only selected files
-    const files = allFiles.filter(filePath => {
-      const fileName = path.basename(filePath);
-      return selectedFiles.includes(fileName);
-    });
+    const selected = allUnits.filter(unit => selectedFiles.includes(unit.fileName));
     
-    if (files.length === 0) {
+    if (selected.length === 0) {
       throw new Error('No se encontraron archivos seleccionados para procesar');
     }
 
+    // Reject archives whose extractor is unavailable or volumes are missing before starting, not mid-batch
+    const files: ArchiveUnit[] = [];
+    for (const unit of selected) {
+      const availability = await getUnitAvailability(unit);
+      if (unit.missingVolumes.length > 0) {
+        result.errors.push(`Omitido ${unit.fileName}: faltan volúmenes (${unit.missingVolumes.join(', ')})`);
+      } else if (availability.available) {
+        files.push(unit);
+      } else {
+        result.errors.push(`Omitido ${unit.fileName}: ${availability.reason || 'formato no soportado'}`);
+      }
+    }
+
+    if (files.length === 0) {
+      throw new Error(result.errors[0] || 'No se encontraron archivos seleccionados para procesar');
+    }
+
+    await checkDiskSpace(files, archivosPath, options.workspaceRoot);
+    const fingerprints = await openFingerprintStore(archivosPath);
+    const jobWorkspace = await createJobWorkspace(options.workspaceRoot, inputPath, files.map(unit => unit.fileName));
+    workspace = jobWorkspace;
+    const jobJournal = await openJournal(options.journalDir, 'zip', options.rollbackScope, inputPath);
+    journal = jobJournal;
+
     onProgress({
       current: 0,
       total: files.length,
@@ -262,47 +606,186 @@ export async function processFiles(
       percentage: 0
     });
 
-    // Process each file
-    for (let i = 0; i < files.length; i++) {
-      const file = files[i];
-      const fileName = path.basename(file);
-      
+    // Archives that land in the same destination folder run one after another so their moves never race
+    const queues = groupByDestination(files, archivosPath, options, parseFileName);
+    const workerCount = Math.max(1, Math.min(options.concurrency, queues.length));
+    const started = new Set<ArchiveUnit>();
+    const activeFiles = new Set<string>();
+    const importedRecords: FingerprintRecord[] = [];
+    let batchFailed = false;
+    let completed = 0;
+
+    const reportProgress = (fileName: string, status: string, archive?: ArchiveProgress) => {
       onProgress({
-        current: i,
+        current: completed,
         total: files.length,
         currentFile: fileName,
-        status: 'Procesando archivo...',
-        percentage: (i / files.length) * 100
+        status,
+        percentage: (completed / files.length) * 100,
+        archive,
+        activeFiles: Array.from(activeFiles)
       });
+    };
+
+    const processUnit = async (unit: ArchiveUnit): Promise<void> => {
+      const fileName = unit.fileName;
+      const info = parseFileName(unit.baseName);
+      const item: ResultItem = {
+        fileName,
+        outcome: 'processed',
+        diary: info?.diary,
+        date: info ? formatFileDate(info.year, info.month, info.day) : undefined
+      };
+
+      // Byte-level updates are throttled; phase changes and completions always go through
+      let lastPhase: ArchivePhase | null = null;
+      let lastReport = 0;
+      const onArchiveProgress = (archive: ArchiveProgress) => {
+        const now = Date.now();
+        const phaseDone = archive.bytesTotal > 0 && archive.bytesDone >= archive.bytesTotal;
+        if (archive.phase === lastPhase && !phaseDone && now - lastReport < ARCHIVE_PROGRESS_INTERVAL_MS) {
+          return;
+        }
+        lastPhase = archive.phase;
+        lastReport = now;
+        reportProgress(fileName, PHASE_STATUS[archive.phase], archive);
+      };
+
+      const operations = jobJournal.forUnit(fileName);
 
       try {
-        const destination = await processFile(file, archivosPath, useDateFolder);
-        if (destination) {
-          result.destinations.push(destination);
+        await control?.checkpoint();
+        started.add(unit);
+        activeFiles.add(fileName);
+        reportProgress(fileName, 'Procesando archivo...');
+
+        if (!info) {
+          throw new Error(`No se pudo parsear el nombre del archivo: ${unit.baseName}`);
+        }
+        const outcome = await processFile(unit, info, archivosPath, jobWorkspace.dir, options, fingerprints, operations, onArchiveProgress, control);
+        if (outcome.fingerprint) {
+          importedRecords.push(outcome.fingerprint);
         }
+        await jobWorkspace.markCompleted(fileName);
+        if (outcome.duplicateOf) {
+          await jobJournal.commitUnit(fileName);
+          // Originals are kept: nothing from this archive was imported in this run
+          result.alreadyImported?.push({
+            fileName,
+            destination: outcome.duplicateOf.destination,
+            importedAt: outcome.duplicateOf.importedAt
+          });
+          result.items?.push({ ...item, outcome: 'already-imported', targetPath: path.join(archivosPath, outcome.duplicateOf.destination) });
+          completed++;
+          return;
+        }
+        result.destinations.push(outcome.destination);
+        result.nestedLevels = Math.max(result.nestedLevels || 0, outcome.nested.levels);
+        result.nestedArchives = (result.nestedArchives || 0) + outcome.nested.archives;
+        result.decisions?.push(...outcome.decisions);
+        outcome.nested.skipped.forEach(skipped => {
+          result.errors.push(`Advertencia: ${fileName} contiene ${skipped}`);
+        });
         result.processed++;
         
-        // Delete original file if processing was successful and option is enabled
+        // Delete original file (every volume of a set) if processing was successful and option is enabled
         if (deleteOriginals) {
-          try {
-            await fs.remove(file);
-            console.log(`Deleted original file: ${fileName}`);
-          } catch (deleteError) {
-            console.error(`Error deleting original file ${fileName}:`, deleteError);
-            result.errors.push(`Advertencia: No se pudo eliminar el archivo original ${fileName}`);
+          for (const volume of unit.volumes) {
+            const volumeName = path.basename(volume);
+            try {
+              await operations.remove(volume);
+              console.log(`Deleted original file: ${volumeName}`);
+            } catch (deleteError) {
+              console.error(`Error deleting original file ${volumeName}:`, deleteError);
+              result.errors.push(`Advertencia: No se pudo eliminar el archivo original ${volumeName}`);
+            }
           }
         }
+        await jobJournal.commitUnit(fileName);
+        result.items?.push({ ...item, targetPath: outcome.destination });
+        completed++;
       } catch (error) {
+        const rollback = await jobJournal.rollbackUnit(fileName);
+        result.errors.push(...rollback.failures);
+        if (error instanceof JobCancelledError) {
+          // processFile already removed its temp folder, so the archive counts as never started
+          console.log(`Processing cancelled before finishing ${fileName}`);
+          started.delete(unit);
+          result.cancelled = true;
+          return;
+        }
+        if (rollback.units.length > 0) {
+          console.log(`Rolled back the changes of ${fileName}`);
+          result.rolledBack?.push(fileName);
+        }
+        if (options.rollbackScope === 'batch') {
+          batchFailed = true;
+        }
+        completed++;
         console.error(`Error processing file ${fileName}:`, error);
+        const message = error instanceof Error ? error.message : 'Error desconocido';
+        result.items?.push({ ...item, outcome: rollback.units.length > 0 ? 'rolled-back' : 'failed', error: message });
+        if (error instanceof ArchivePasswordError) {
+          result.passwordErrors?.push(`${fileName}: ${error.message}`);
+          return;
+        }
+        if (error instanceof UnsafeArchiveError || error instanceof CorruptArchiveError) {
+          result.errors.push(`${fileName}: ${error.message}`);
+          return;
+        }
         result.errors.push(`Error procesando ${fileName}: ${error instanceof Error ? error.message : 'Error desconocido'}`);
+      } finally {
+        activeFiles.delete(fileName);
+      }
+    };
+
+    // Each worker takes a whole destination queue at a time
+    let nextQueue = 0;
+    const runWorker = async (): Promise<void> => {
+      while (nextQueue < queues.length && !result.cancelled && !batchFailed) {
+        const queue = queues[nextQueue++];
+        for (const unit of queue) {
+          if (result.cancelled || batchFailed) {
+            return;
+          }
+          await processUnit(unit);
+        }
       }
+    };
+
+    await Promise.all(Array.from({ length: workerCount }, () => runWorker()));
+
+    if (batchFailed) {
+      // The archives that had succeeded are undone too, originals included
+      reportProgress('', 'Revirtiendo el lote...');
+      const rollback = await jobJournal.rollbackAll();
+      for (const record of importedRecords) {
+        await fingerprints.remove(record);
+      }
+      result.errors.push(...rollback.failures);
+      result.rolledBack = Array.from(new Set([...(result.rolledBack || []), ...rollback.units]));
+      result.batchRolledBack = true;
+      result.processed = 0;
+      result.destinations = [];
+      result.decisions = [];
+      result.alreadyImported = [];
+      result.items?.forEach(item => {
+        if (item.outcome === 'processed' || item.outcome === 'already-imported') {
+          item.outcome = 'rolled-back';
+        }
+      });
+    }
+
+    if (result.cancelled || batchFailed) {
+      result.pending = files.filter(unit => !started.has(unit)).map(unit => unit.fileName);
+      result.pending.forEach(fileName => result.items?.push({ fileName, outcome: 'pending' }));
     }
 
     onProgress({
-      current: files.length,
+      current: result.cancelled ? files.length - (result.pending?.length || 0) : files.length,
       total: files.length,
       currentFile: '',
-      status: 'Procesamiento completado',
+      status: result.cancelled ? 'Procesamiento cancelado' : batchFailed ? 'Lote revertido' : 'Procesamiento completado',
       percentage: 100
     });
 
@@ -317,60 +800,144 @@ export async function processFiles(
     console.error('Error in processFiles:', error);
     result.error = error instanceof Error ? error.message : 'Error desconocido';
     return result;
+  } finally {
+    await journal?.finish();
+    await workspace?.dispose();
   }
 }
 
-async function getFilesToProcess(inputPath: string): Promise<string[]> {
-  const files: string[] = [];
-  const supportedExtensions = ['.zip', '.rar', '.7z'];
+// Undoing an import also removes its fingerprints, so the same archives can be imported again
+export async function undoProcessing(journalDir: string, id: string): Promise<UndoOutcome> {
+  const outcome = await undoJob(journalDir, id);
+  if (outcome.kind === 'zip' && outcome.failures.length === 0) {
+    const fingerprints = await openFingerprintStore(path.join(getDropboxPath(), 'Archivos'));
+    await fingerprints.removeWhere(record => outcome.units.includes(record.fileName) && record.importedAt >= outcome.startedAt);
+  }
+  return outcome;
+}
 
-  // Only scan the main directory, not subdirectories
-  const items = await fs.readdir(inputPath);
-  
-  for (const item of items) {
-    const fullPath = path.join(inputPath, item);
-    const stat = await fs.stat(fullPath);
-    
-    if (stat.isFile()) {
-      const ext = path.extname(item).toLowerCase();
-      
-      // Check if file has supported extension
-      if (supportedExtensions.includes(ext)) {
-        // Also check if filename matches our nomenclature pattern
-        const fileNameWithoutExt = path.basename(item, ext);
-        const parsedInfo = parseFileName(fileNameWithoutExt);
-        
-        // Only include files that match the nomenclature pattern
-        if (parsedInfo) {
-          files.push(fullPath);
-        }
-      }
+// Refuses to start a batch whose extracted size would not fit on the destination volume
+// (nor on the workspace volume, when extraction happens on another disk). Deleted originals and replaced
+// files free nothing while they can be undone, but their backups are renames on their own volume and need no room
+async function checkDiskSpace(units: ArchiveUnit[], archivosPath: string, workspaceRoot: string): Promise<void> {
+  const locations = [{ path: archivosPath, label: 'disco' }];
+  try {
+    if (!await isSameVolume(archivosPath, workspaceRoot)) {
+      locations.push({ path: workspaceRoot, label: 'el disco del espacio de trabajo' });
     }
+  } catch (error) {
+    console.warn('Could not compare workspace and destination volumes:', error);
   }
 
-  return files;
+  const items: DiskSpaceItem[] = [];
+  for (const unit of units) {
+    const estimate = await estimateExtractedSize(unit.filePath, unit.volumes, unit.multiVolume);
+    items.push({ fileName: unit.fileName, estimatedSize: estimate.size });
+  }
+
+  for (const location of locations) {
+    let freeSpace: number;
+    try {
+      freeSpace = await getFreeSpace(location.path);
+    } catch (error) {
+      console.warn(`Could not check free disk space on ${location.path}, continuing without preflight:`, error);
+      continue;
+    }
+
+    const plan = planDiskUsage(items, freeSpace);
+    if (!plan.fits) {
+      throw new Error(
+        `Espacio insuficiente en ${location.label}: se necesitan unos ${formatSize(plan.required)} y hay ${formatSize(plan.available)} disponibles. ` +
+        `Caben ${plan.fitting.length} de ${items.length} archivos; usa "Solo lo que cabe" en la vista previa.`
+      );
+    }
+  }
 }
 
-async function processFile(filePath: string, archivosPath: string, useDateFolder: boolean): Promise<string | undefined> {
-  const fileName = path.basename(filePath, path.extname(filePath));
-  const tempDir = path.join(archivosPath, 'temp', fileName);
-  
-  // Parse the original filename to get organization info
-  const fileInfo = parseFileName(fileName);
-  
-  if (!fileInfo) {
-    throw new Error(`No se pudo parsear el nombre del archivo: ${fileName}`);
+function groupByDestination(
+  units: ArchiveUnit[],
+  archivosPath: string,
+  layout: TargetLayout,
+  parseFileName: FileNameParser
+): ArchiveUnit[][] {
+  const queues = new Map<string, ArchiveUnit[]>();
+
+  for (const unit of units) {
+    const fileInfo = parseFileName(unit.baseName);
+    const key = fileInfo
+      ? path.resolve(buildTargetInfo(archivosPath, fileInfo, layout).fullPath).toLowerCase()
+      : unit.filePath;
+    const queue = queues.get(key) || [];
+    queue.push(unit);
+    queues.set(key, queue);
   }
+
+  return Array.from(queues.values());
+}
+
+async function getFilesToProcess(inputPath: string, parseFileName: FileNameParser): Promise<ArchiveUnit[]> {
+  // Only scan the main directory, not subdirectories
+  const allFiles = await getAllFiles(inputPath);
+
+  // Only include archives whose name matches our nomenclature pattern
+  return (await collectArchiveUnits(allFiles)).filter(unit => parseFileName(unit.baseName) !== null);
+}
+
+async function processFile(
+  unit: ArchiveUnit,
+  fileInfo: FileInfo,
+  archivosPath: string,
+  workspaceDir: string,
+  options: ProcessingOptions,
+  fingerprints: FingerprintStore,
+  operations: FileOperations,
+  onProgress: (progress: ArchiveProgress) => void,
+  control?: JobControl
+): Promise<FileProcessingOutcome> {
+  const filePath = unit.filePath;
+  const fileName = unit.baseName;
+  const tempDir = path.join(workspaceDir, fileName);
   
+  const skipDuplicates = options.duplicatePolicy === 'skip';
+  const noNested: NestedExtractionSummary = { levels: 0, archives: 0, skipped: [] };
+
+  // An exact re-download is recognised before anything is extracted
+  const archiveSize = await getArchiveSize(unit.volumes);
+  let hashedBytes = 0;
+  const archiveHash = await hashArchive(unit.volumes, length => {
+    hashedBytes += length;
+    onProgress({ phase: 'hashing', bytesDone: hashedBytes, bytesTotal: archiveSize, currentEntry: unit.fileName });
+  });
+  const knownArchive = fingerprints.findByArchive(archiveHash);
+  if (knownArchive && skipDuplicates) {
+    console.log(`Skipping ${unit.fileName}: already imported as ${knownArchive.fileName}`);
+    return {
+      destination: path.join(archivosPath, knownArchive.destination),
+      nested: noNested,
+      decisions: [],
+      duplicateOf: knownArchive
+    };
+  }
+
   try {
     // Create temporary directory
     await fs.ensureDir(tempDir);
     
-    // Extract the file
-    await extractFile(filePath, tempDir);
-    
-    // Add delay to ensure extraction is complete and file handles are released
-    await new Promise(resolve => setTimeout(resolve, 1000));
+    // Extract the file, trying the archive's own password before the saved ones
+    const passwords = [options.passwords[unit.fileName], ...options.knownPasswords];
+    await extractArchive(filePath, tempDir, {
+      passwords,
+      multiVolume: unit.multiVolume,
+      test: options.testArchives,
+      onProgress
+    });
+    await control?.checkpoint();
+
+    // Unpack archives found inside the extracted contents, level by level
+    const nested = options.extractNested
+      ? await extractNestedArchives(tempDir, options.maxNestedDepth, passwords, onProgress)
+      : noNested;
+    await control?.checkpoint();
     
     // Verify extraction was successful
     const extractedFiles = await fs.readdir(tempDir);
@@ -381,14 +948,48 @@ async function processFile(filePath: string, archivosPath: string, useDateFolder
     console.log(`Extracted ${extractedFiles.length} items from ${path.basename(filePath)}`);
     
     // Process extracted contents using the parsed info from original filename
-    const destinationDir = await organizeExtractedFiles(tempDir, archivosPath, fileInfo, useDateFolder);
-    
-    // Add delay to ensure all file operations are complete
-    await new Promise(resolve => setTimeout(resolve, 500));
+    // Skip lone wrapper folders so the contents land directly in the target folder
+    const contentRoot = await findContentRoot(tempDir, options.unwrapMode);
+
+    // A repackaged copy of an earlier import has a different archive hash but the same files
+    const entryHashes = await hashExtractedFiles(contentRoot, onProgress);
+    const knownContent = fingerprints.findByContent(entryHashes);
+    if (knownContent && skipDuplicates) {
+      console.log(`Skipping ${unit.fileName}: same content as ${knownContent.fileName}`);
+      await safeRemoveDir(tempDir);
+      return {
+        destination: path.join(archivosPath, knownContent.destination),
+        nested,
+        decisions: [],
+        duplicateOf: knownContent
+      };
+    }
+    await control?.checkpoint();
+
+    const organized = await organizeExtractedFiles(
+      contentRoot,
+      archivosPath,
+      fileInfo,
+      options,
+      options.conflictPolicy,
+      operations,
+      progress => onProgress({ ...progress, phase: 'moving' })
+    );
     
-    // Clean up temporary directory with retries
+    const fingerprint: FingerprintRecord = {
+      fileName: unit.fileName,
+      archiveHash,
+      archiveSize,
+      entries: entryHashes,
+      destination: path.relative(archivosPath, organized.targetDir).split(path.sep).join('/'),
+      importedAt: new Date().toISOString()
+    };
+    await fingerprints.add(fingerprint);
+
+    // Clean up temporary directory with retries (skipped files are dropped with it)
+    onProgress({ phase: 'cleaning', bytesDone: 0, bytesTotal: 0 });
     await safeRemoveDir(tempDir);
-    return destinationDir;
+    return { destination: organized.targetDir, nested, decisions: organized.decisions, fingerprint };
     
   } catch (error) {
     // Clean up on error with retries
@@ -397,222 +998,419 @@ async function processFile(filePath: string, archivosPath: string, useDateFolder
   }
 }
 
-async function extractFile(filePath: string, outputDir: string): Promise<void> {
-  const extension = path.extname(filePath).toLowerCase();
-  
-  if (extension === '.zip') {
-    return extractZipFile(filePath, outputDir);
-  } else if (extension === '.rar' || extension === '.7z') {
-    return extractWithPowerShell(filePath, outputDir);
-  } else {
-    throw new Error(`Formato de archivo no soportado: ${extension}`);
-  }
-}
-
-async function extractZipFile(filePath: string, outputDir: string): Promise<void> {
-  return new Promise((resolve, reject) => {
-    // Use PowerShell's Expand-Archive for ZIP files (available on Windows 10+)
-    const command = 'powershell.exe';
-    const args = [
-      '-Command',
-      `Expand-Archive -Path "${filePath}" -DestinationPath "${outputDir}" -Force`
-    ];
-
-    const childProcess = spawn(command, args, {
-      windowsHide: true
-    });
+async function getAllFilesRecursive(dirPath: string): Promise<string[]> {
+  const files: string[] = [];
+  const items = await fs.readdir(dirPath);
 
-    let stderr = '';
-    
-    childProcess.stderr.on('data', (data) => {
-      stderr += data.toString();
-    });
-    
-    childProcess.on('close', (code: number | null) => {
-      if (code === 0) {
-        resolve();
-      } else {
-        reject(new Error(`Error al extraer archivo ZIP: ${stderr || 'código de salida ' + code}`));
-      }
-    });
+  for (const item of items) {
+    const fullPath = path.join(dirPath, item);
+    const stat = await fs.stat(fullPath);
 
-    childProcess.on('error', (error: Error) => {
-      reject(new Error(`Error ejecutando comando de extracción ZIP: ${error.message}`));
-    });
-  });
+    if (stat.isDirectory()) {
+      files.push(...await getAllFilesRecursive(fullPath));
+    } else if (stat.isFile()) {
+      files.push(fullPath);
+    }
+  }
+
+  return files;
 }
 
-async function extractWithPowerShell(filePath: string, outputDir: string): Promise<void> {
-  return new Promise((resolve, reject) => {
-    // Try to use 7z if available, otherwise show informative error
-    const command = '7z';
-    const args = ['x', filePath, `-o${outputDir}`, '-y'];
+// Folders with nothing inside, which moving the files one by one would leave behind
+async function getEmptyDirsRecursive(dirPath: string): Promise<string[]> {
+  const dirs: string[] = [];
 
-    const childProcess = spawn(command, args, {
-      windowsHide: true
-    });
-    
-    childProcess.on('close', (code: number | null) => {
-      if (code === 0) {
-        resolve();
-      } else {
-        reject(new Error(`Error al extraer archivo: código de salida ${code}`));
+  for (const item of await fs.readdir(dirPath)) {
+    const fullPath = path.join(dirPath, item);
+    if (!(await fs.stat(fullPath)).isDirectory()) {
+      continue;
+    }
+
+    const nested = await getEmptyDirsRecursive(fullPath);
+    if (nested.length > 0) {
+      dirs.push(...nested);
+    } else if ((await fs.readdir(fullPath)).length === 0) {
+      dirs.push(fullPath);
+    }
+  }
+
+  return dirs;
+}
+
+async function hashExtractedFiles(rootDir: string, onProgress: (progress: ArchiveProgress) => void): Promise<string[]> {
+  const files = await getAllFilesRecursive(rootDir);
+  let bytesTotal = 0;
+  for (const filePath of files) {
+    bytesTotal += (await fs.stat(filePath)).size;
+  }
+
+  const hashes = new Set<string>();
+  let bytesDone = 0;
+  for (const filePath of files) {
+    const currentEntry = path.relative(rootDir, filePath);
+    hashes.add(await hashFile(filePath, length => {
+      bytesDone += length;
+      onProgress({ phase: 'hashing', bytesDone, bytesTotal, currentEntry });
+    }));
+  }
+  return Array.from(hashes).sort();
+}
+
+// Helper function to pick a directory name that does not collide with existing content
+async function getAvailablePath(basePath: string): Promise<string> {
+  let candidate = basePath;
+  let suffix = 2;
+  while (await fs.pathExists(candidate)) {
+    candidate = `${basePath} (${suffix})`;
+    suffix++;
+  }
+  return candidate;
+}
+
+async function extractNestedArchives(
+  rootDir: string,
+  maxDepth: number,
+  passwords: string[],
+  onProgress?: (progress: ArchiveProgress) => void
+): Promise<NestedExtractionSummary> {
+  const summary: NestedExtractionSummary = { levels: 0, archives: 0, skipped: [] };
+  const skippedPaths = new Set<string>();
+
+  while (summary.levels < maxDepth) {
+    const files = (await getAllFilesRecursive(rootDir)).filter(filePath => !skippedPaths.has(filePath));
+    const archives = await collectArchiveUnits(files);
+
+    if (archives.length === 0) {
+      break;
+    }
+
+    let extractedAtLevel = 0;
+
+    for (const archive of archives) {
+      const availability = await getUnitAvailability(archive);
+      const relativeName = path.relative(rootDir, archive.filePath);
+
+      if (!availability.available || archive.missingVolumes.length > 0) {
+        archive.volumes.forEach(volume => skippedPaths.add(volume));
+        const reason = archive.missingVolumes.length > 0
+          ? `faltan volúmenes: ${archive.missingVolumes.join(', ')}`
+          : availability.reason || 'formato no soportado';
+        summary.skipped.push(`${relativeName} sin extraer (${reason})`);
+        continue;
       }
-    });
 
-    childProcess.on('error', (error: Error) => {
-      if (error.message.includes('ENOENT')) {
-        reject(new Error(`Para extraer archivos .rar y .7z necesitas instalar 7-Zip desde https://www.7-zip.org/`));
-      } else {
-        reject(new Error(`Error ejecutando comando de extracción: ${error.message}`));
+      // Each inner archive unpacks into a sibling folder named after it, then the archive is dropped
+      const outputDir = await getAvailablePath(path.join(path.dirname(archive.filePath), archive.baseName));
+
+      try {
+        await fs.ensureDir(outputDir);
+        await extractArchive(archive.filePath, outputDir, { passwords, multiVolume: archive.multiVolume, onProgress });
+        for (const volume of archive.volumes) {
+          await fs.remove(volume);
+        }
+        extractedAtLevel++;
+        console.log(`Extracted nested archive ${relativeName} (level ${summary.levels + 1})`);
+      } catch (error) {
+        await safeRemoveDir(outputDir);
+        // An unsafe inner archive taints the whole outer archive
+        if (error instanceof UnsafeArchiveError) {
+          throw error;
+        }
+        archive.volumes.forEach(volume => skippedPaths.add(volume));
+        summary.skipped.push(`${relativeName} sin extraer (${error instanceof Error ? error.message : 'Error desconocido'})`);
       }
-    });
-  });
+    }
+
+    if (extractedAtLevel === 0) {
+      break;
+    }
+
+    summary.levels++;
+    summary.archives += extractedAtLevel;
+  }
+
+  return summary;
 }
 
-async function organizeExtractedFiles(tempDir: string, archivosPath: string, fileInfo: FileInfo, useDateFolder: boolean): Promise<string> {
-  const files = await fs.readdir(tempDir);
+// Files are placed one by one so existing folders are merged and each file gets its own conflict decision
+async function organizeExtractedFiles(
+  tempDir: string,
+  archivosPath: string,
+  fileInfo: FileInfo,
+  layout: TargetLayout,
+  conflictPolicy: ConflictPolicy,
+  operations: FileOperations,
+  onProgress?: ByteProgressCallback
+): Promise<{ targetDir: string; decisions: FileDecision[] }> {
+  const files = await getAllFilesRecursive(tempDir);
+  // Listed before the files are moved out, which would empty their folders too
+  const emptyDirs = await getEmptyDirsRecursive(tempDir);
+  const sizes = new Map<string, number>();
+  if (onProgress) {
+    for (const file of files) {
+      sizes.set(file, (await fs.stat(file)).size);
+    }
+  }
+  const bytesTotal = Array.from(sizes.values()).reduce((total, size) => total + size, 0);
+  let bytesDone = 0;
   
-  // Create month name in Spanish
-  const targetInfo = buildTargetInfo(archivosPath, fileInfo, useDateFolder);
+  const targetInfo = buildTargetInfo(archivosPath, fileInfo, layout);
   const targetDir = targetInfo.fullPath;
   
   console.log(`Creating directory structure: ${targetDir}`);
-  await fs.ensureDir(targetDir);
-  
-  for (const file of files) {
-    const filePath = path.join(tempDir, file);
-    const stat = await fs.stat(filePath);
-    
-    if (stat.isFile()) {
-      const targetPath = path.join(targetDir, file);
-      
-      console.log(`Moving file from ${filePath} to ${targetPath}`);
-      // Move the file to the organized location
-      await fs.move(filePath, targetPath, { overwrite: true });
-    } else if (stat.isDirectory()) {
-      // If it's a directory, move it recursively
-      const targetDirPath = path.join(targetDir, file);
-      console.log(`Moving directory from ${filePath} to ${targetDirPath}`);
-      await fs.move(filePath, targetDirPath, { overwrite: true });
-    }
+  await operations.ensureDir(targetDir);
+
+  const decisions: FileDecision[] = [];
+  for (const filePath of files) {
+    const relativePath = path.relative(tempDir, filePath);
+    const decision = await transferFile(
+      filePath,
+      path.join(targetDir, relativePath),
+      'move',
+      conflictPolicy,
+      relativePath.split(path.sep).join('/'),
+      operations
+    );
+    console.log(`${decision.decision}: ${relativePath} -> ${decision.targetPath}`);
+    decisions.push(decision);
+
+    bytesDone += sizes.get(filePath) || 0;
+    onProgress?.({ bytesDone, bytesTotal, currentEntry: relativePath });
   }
 
-  return targetDir;
+  // Empty folders are part of the archive too; ensureDir keeps them in the journal for a rollback
+  for (const dirPath of emptyDirs) {
+    const relativePath = path.relative(tempDir, dirPath);
+    console.log(`Creating empty folder: ${relativePath}`);
+    await operations.ensureDir(path.join(targetDir, relativePath));
+  }
+
+  return { targetDir, decisions };
 }
 
-interface FileInfo {
+interface FileInfo extends IssueMetadata {
   year: number;
   month: number;
   diary: string;
   day?: number;
+  // Last day of a weekly issue such as "11-17 de diciembre"
+  endDay?: number;
+  // Set when the weekday in the name does not match the date
+  dateWarning?: string;
+  // Name as written in the file, when the registry mapped it to another one
+  originalDiary?: string;
+  // Set when the date falls outside the years the diary was published
+  publicationWarning?: string;
+}
+
+export type FileNameParser = (fileName: string) => FileInfo | null;
+
+interface FileNameMatch {
+  info: FileInfo;
+  pattern: CompiledPattern;
 }
 
-function parseFileName(fileName: string): FileInfo | null {
+function toFileInfo(captures: PatternCaptures, packs: LocalePack[]): FileInfo | null {
+  const diary = (captures.diary || '').trim();
+  const phrase = captures.date ? findDatePhrase(captures.date, packs, true) : null;
+  const year = phrase ? phrase.year : parseInt(captures.year || '', 10);
+  const month = phrase
+    ? phrase.month
+    : captures.monthName ? parseMonthName(captures.monthName, packs) : parseInt(captures.month || '', 10);
+  const day = phrase ? phrase.day ?? null : captures.day ? parseInt(captures.day, 10) : null;
+  const endDay = phrase?.endDay ?? null;
+
+  if (!diary || !isValidDate({ day: day ?? undefined, endDay: endDay ?? undefined, month, year })) {
+    console.log(`Validation failed: year=${year}, month=${month}, day=${day}, endDay=${endDay}, diary="${diary}"`);
+    return null;
+  }
+
+  const result: FileInfo = { year, month, diary };
+  if (day !== null) {
+    result.day = day;
+  }
+  if (endDay !== null) {
+    result.endDay = endDay;
+  }
+  if (captures.edition?.trim()) {
+    result.edition = captures.edition.trim();
+  }
+  if (captures.supplement?.trim()) {
+    result.supplement = captures.supplement.trim();
+  }
+  const issue = captures.issue ? parseIssueNumber(captures.issue) : undefined;
+  if (issue) {
+    result.issue = issue;
+  }
+  const warning = phrase ? getWeekdayWarning(phrase) : null;
+  if (warning) {
+    result.dateWarning = warning;
+  }
+  return result;
+}
+
+// The dots in "dic. 1989" or "N° 14.532" are not extensions
+const FILE_EXTENSION = /\.(?=[a-z0-9]*[a-z])[a-z0-9]{1,5}$/i;
+
+function matchFileName(fileName: string, patterns: CompiledPattern[], packs: LocalePack[]): FileNameMatch | null {
   console.log(`Parsing filename: ${fileName}`);
-  
+
   // Remove file extension for better parsing
-  const nameWithoutExt = fileName.replace(/\.[^.]*$/, '');
-  
-  // Specific patterns for "La Tercera" and "TV Grama" nomenclature
-  const patterns = [
-    // Pattern: "La Tercera - 11 de diciembre de 1989" or "La Tercera - 11 de diciembre del 1989"
-    /^(.+?)\s*-\s*(\d{1,2})\s+de\s+(\w+)\s+(?:de|del)\s+(\d{4})$/i,
-    
-    // Pattern: "TV Grama - Diciembre 1989"
-    /^(.+?)\s*-\s*(\w+)\s+(\d{4})$/i,
-    
-    // Pattern: "La Tercera - diciembre 1989" (alternative)
-    /^(.+?)\s*-\s*(\w+)\s+(\d{4})$/i,
-    
-    // Fallback patterns for other formats
-    /(\d{4})[_-](\d{1,2})[_-](\d{1,2})[_-](.+)/,  // YYYY-MM-DD_DiaryName
-    /(\d{4})(\d{2})(\d{2})[_-](.+)/,               // YYYYMMDD_DiaryName
-    /(.+)[_-](\d{4})[_-](\d{1,2})[_-](\d{1,2})/,  // DiaryName_YYYY-MM-DD
-  ];
-
-  // Spanish month names mapping
-  for (let i = 0; i < patterns.length; i++) {
-    const pattern = patterns[i];
-    const match = nameWithoutExt.match(pattern);
-    
-    if (!match) {
-      continue;
-    }
+  const nameWithoutExt = fileName.replace(FILE_EXTENSION, '');
+  // Edition, supplement and issue markers are taken out first; the full name is the fallback for rules that capture them
+  const extraction = extractIssueMetadata(nameWithoutExt, packs);
+  const candidates = extraction.name !== nameWithoutExt ? [extraction.name, nameWithoutExt] : [nameWithoutExt];
+
+  for (const candidate of candidates) {
+    for (const pattern of patterns) {
+      const captures = matchPattern(pattern, candidate);
+      if (!captures) {
+        continue;
+      }
 
-    let year = 0;
-    let month = 0;
-    let diary = '';
-    let day: number | null = null;
-    
-    if (i === 0) {
-      // Pattern: "La Tercera - 11 de diciembre de 1989"
-      diary = match[1].trim();
-      day = parseInt(match[2], 10);
-      const monthName = match[3].toLowerCase();
-      year = parseInt(match[4], 10);
-      month = SPANISH_MONTHS_MAP[monthName] || 0;
-      
-      console.log(`Parsed pattern 1: diary="${diary}", day=${day}, month="${monthName}"(${month}), year=${year}`);
-    } else if (i === 1 || i === 2) {
-      // Pattern: "TV Grama - Diciembre 1989"
-      diary = match[1].trim();
-      const monthName = match[2].toLowerCase();
-      year = parseInt(match[3], 10);
-      month = SPANISH_MONTHS_MAP[monthName] || 0;
-      
-      console.log(`Parsed pattern 2/3: diary="${diary}", month="${monthName}"(${month}), year=${year}`);
-    } else if (i === 3) {
-      // Pattern: YYYY-MM-DD_DiaryName
-      year = parseInt(match[1], 10);
-      month = parseInt(match[2], 10);
-      day = parseInt(match[3], 10);
-      diary = (match[4] || '').trim();
-      
-      console.log(`Parsed fallback pattern 4: diary="${diary}", day=${day}, month=${month}, year=${year}`);
-    } else if (i === 4) {
-      // Pattern: YYYYMMDD_DiaryName
-      year = parseInt(match[1], 10);
-      month = parseInt(match[2], 10);
-      day = parseInt(match[3], 10);
-      diary = (match[4] || '').trim();
-      
-      console.log(`Parsed fallback pattern 5: diary="${diary}", day=${day}, month=${month}, year=${year}`);
-    } else if (i === 5) {
-      // Pattern: DiaryName_YYYY-MM-DD
-      diary = (match[1] || '').trim();
-      year = parseInt(match[2], 10);
-      month = parseInt(match[3], 10);
-      day = parseInt(match[4], 10);
-      
-      console.log(`Parsed pattern 6: diary="${diary}", day=${day}, month=${month}, year=${year}`);
+      const parsed = toFileInfo(captures, packs);
+      if (parsed) {
+        const info = candidate === extraction.name ? { ...extraction.metadata, ...parsed } : parsed;
+        console.log(`Parsed with "${pattern.source}": ${JSON.stringify(info)}`);
+        return { info, pattern };
+      }
     }
+  }
 
-    const validYear = year >= 1900 && year <= new Date().getFullYear();
-    const validMonth = month >= 1 && month <= 12;
-    const validDiary = diary && diary.trim().length > 0;
-    const validDay = day === null || (day >= 1 && day <= 31);
+  console.log(`Could not parse filename: ${fileName}`);
+  return null;
+}
 
-    if (validYear && validMonth && validDiary && validDay) {
-      const result: FileInfo = {
-        year,
-        month,
-        diary: diary.trim()
-      };
+function applyDiaryRegistry(info: FileInfo, registry: DiaryRegistry): FileInfo {
+  const entry = registry.resolve(info.diary);
+  if (!entry) {
+    return info;
+  }
+
+  const resolved: FileInfo = { ...info, diary: entry.name };
+  if (entry.name !== info.diary) {
+    resolved.originalDiary = info.diary;
+  }
+  const warning = getPublicationWarning(entry, info.year);
+  if (warning) {
+    resolved.publicationWarning = warning;
+  }
+  return resolved;
+}
+
+export function createFileNameParser(
+  patterns: FilenamePattern[] = DEFAULT_FILENAME_PATTERNS,
+  parseLocales: LocaleId[] = DEFAULT_LOCALE_SETTINGS.parse,
+  diaries: DiaryEntry[] = []
+): FileNameParser {
+  const packs = getLocalePacks(parseLocales);
+  const compiled = compilePatterns(patterns, packs);
+  const registry = createDiaryRegistry(diaries);
+  return fileName => {
+    const match = matchFileName(fileName, compiled, packs);
+    return match ? applyDiaryRegistry(match.info, registry) : null;
+  };
+}
 
-      if (day !== null && validDay) {
-        result.day = day;
+// Offered only when the fixed name can be processed; baseName is the part of the file name without its extension
+function suggestFileName(
+  filePath: string,
+  baseName: string,
+  packs: LocalePack[],
+  accepts: (name: string) => boolean
+): FileNameSuggestion | null {
+  const correction = findDateCorrection(baseName, packs);
+  if (!correction || !accepts(correction.text)) {
+    return null;
+  }
+
+  const fileName = path.basename(filePath);
+  return {
+    fileName,
+    filePath,
+    suggestedName: `${correction.text}${fileName.slice(baseName.length)}`,
+    reason: correction.reason
+  };
+}
+
+// Renames a file to its suggested name; an existing file with that name is never replaced
+export async function applyFileNameSuggestion(filePath: string, suggestedName: string): Promise<string> {
+  if (!suggestedName || path.basename(suggestedName) !== suggestedName) {
+    throw new Error(`Nombre de archivo no válido: ${suggestedName}`);
+  }
+
+  const targetPath = path.join(path.dirname(filePath), suggestedName);
+  if (await fs.pathExists(targetPath)) {
+    throw new Error(`Ya existe un archivo llamado ${suggestedName}`);
+  }
+  await fs.rename(filePath, targetPath);
+  console.log(`Renamed ${filePath} to ${suggestedName}`);
+  return targetPath;
+}
+
+export interface PatternTestItem {
+  fileName: string;
+  // Position of the matching rule in the list being edited
+  patternIndex?: number;
+  parsedInfo?: FileInfo;
+  targetPathLabel?: string;
+}
+
+export interface PatternTestResult {
+  success: boolean;
+  items: PatternTestItem[];
+  // Why a rule cannot be used, by its position in the list
+  patternErrors: Record<number, string>;
+  error?: string;
+}
+
+// Runs unsaved rules against the archives of a folder, for the rule editor
+export async function testFilenamePatterns(
+  inputPath: string,
+  patterns: FilenamePattern[],
+  locales: LocaleSettings = DEFAULT_LOCALE_SETTINGS,
+  diaries: DiaryEntry[] = [],
+  metadataFolders: MetadataField[] = DEFAULT_METADATA_FOLDERS
+): Promise<PatternTestResult> {
+  const result: PatternTestResult = { success: false, items: [], patternErrors: {} };
+  const packs = getLocalePacks(locales.parse);
+  const registry = createDiaryRegistry(diaries);
+  const compiled: CompiledPattern[] = [];
+  const indexes = new Map<CompiledPattern, number>();
+
+  patterns.forEach((pattern, index) => {
+    try {
+      const compiledPattern = compilePattern(pattern.pattern, packs);
+      if (pattern.enabled) {
+        compiled.push(compiledPattern);
+        indexes.set(compiledPattern, index);
       }
+    } catch (error) {
+      result.patternErrors[index] = error instanceof Error ? error.message : 'Patrón no válido';
+    }
+  });
 
-      console.log(`Successfully parsed: ${JSON.stringify(result)}`);
-      return result;
+  try {
+    if (!inputPath || !await fs.pathExists(inputPath)) {
+      throw new Error('Selecciona una carpeta de entrada para probar las reglas');
     }
 
-    console.log(`Validation failed: year=${year}, month=${month}, day=${day}, diary="${diary}"`);
+    const archivosPath = path.join(getDropboxPath(), 'Archivos');
+    for (const unit of await collectArchiveUnits(await getAllFiles(inputPath))) {
+      const match = matchFileName(unit.baseName, compiled, packs);
+      const info = match ? applyDiaryRegistry(match.info, registry) : undefined;
+      result.items.push({
+        fileName: unit.fileName,
+        patternIndex: match ? indexes.get(match.pattern) : undefined,
+        parsedInfo: info,
+        targetPathLabel: info ? buildTargetInfo(archivosPath, info, { useDateFolder: false, locales, metadataFolders }).label : undefined
+      });
+    }
+    result.success = true;
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : 'Error desconocido';
   }
-
-  console.log(`Could not parse filename: ${fileName}`);
-  return null;
+  return result;
 }
 
 interface TargetInfo {
@@ -621,27 +1419,36 @@ interface TargetInfo {
   dateFolderName?: string;
 }
 
-function buildTargetInfo(archivosPath: string, fileInfo: FileInfo, useDateFolder: boolean): TargetInfo {
-  const monthFolder = getMonthFolderName(fileInfo.month);
+// How the folders below Archivos are named; ProcessingOptions has the same fields
+interface TargetLayout {
+  useDateFolder: boolean;
+  locales: LocaleSettings;
+  metadataFolders: MetadataField[];
+}
+
+function buildTargetInfo(archivosPath: string, fileInfo: FileInfo, layout: TargetLayout): TargetInfo {
+  const monthFolder = getMonthFolderName(fileInfo.month, layout.locales.output);
+  const metadataFolders = getMetadataFolders(fileInfo, layout.metadataFolders, layout.locales.output);
   const baseTarget = path.join(
     archivosPath,
     fileInfo.year.toString(),
     monthFolder,
-    fileInfo.diary
+    fileInfo.diary,
+    ...metadataFolders
   );
 
   let fullPath = baseTarget;
   let dateFolderName: string | undefined;
 
-  if (useDateFolder) {
-    const candidate = getDateFolderName(fileInfo);
+  if (layout.useDateFolder) {
+    const candidate = getDateFolderName(fileInfo, layout.locales);
     if (candidate) {
       dateFolderName = candidate;
       fullPath = path.join(baseTarget, candidate);
     }
   }
 
-  const labelParts = [fileInfo.year.toString(), monthFolder, fileInfo.diary];
+  const labelParts = [fileInfo.year.toString(), monthFolder, fileInfo.diary, ...metadataFolders];
   if (dateFolderName) {
     labelParts.push(dateFolderName);
   }
@@ -653,15 +1460,16 @@ function buildTargetInfo(archivosPath: string, fileInfo: FileInfo, useDateFolder
   };
 }
 
-function getMonthFolderName(month: number): string {
-  if (month >= 1 && month <= 12) {
-    return `${month.toString().padStart(2, '0')} - ${MONTH_NAMES[month]}`;
+function getMonthFolderName(month: number, locale: LocaleId): string {
+  const monthName = getMonthName(month, locale);
+  if (monthName) {
+    return `${month.toString().padStart(2, '0')} - ${monthName.charAt(0).toUpperCase()}${monthName.slice(1)}`;
   }
   const safeMonth = Math.max(0, Math.min(month, 99));
-  return `${safeMonth.toString().padStart(2, '0')} - Mes`;
+  return `${safeMonth.toString().padStart(2, '0')} - ${getLocalePack(locale).unknownMonth}`;
 }
 
-function getDateFolderName(fileInfo: FileInfo): string | undefined {
+function getDateFolderName(fileInfo: FileInfo, locales: LocaleSettings): string | undefined {
   const month = fileInfo.month;
   const year = fileInfo.year;
 
@@ -669,64 +1477,70 @@ function getDateFolderName(fileInfo: FileInfo): string | undefined {
     return undefined;
   }
 
-  const monthNameLower = MONTH_NAMES_LOWER[month];
-  if (!monthNameLower) {
+  const monthName = getMonthName(month, locales.output);
+  if (!monthName) {
     return undefined;
   }
 
+  const pack = getLocalePack(locales.output);
   if (fileInfo.day && fileInfo.day >= 1 && fileInfo.day <= 31) {
-    return `${fileInfo.day} de ${monthNameLower} de ${year}`;
+    const dayLabel = fileInfo.endDay && locales.ranges === 'range' ? `${fileInfo.day}-${fileInfo.endDay}` : fileInfo.day;
+    return pack.formatDay(dayLabel, monthName, year);
   }
 
-  const monthNameCapitalized = monthNameLower.charAt(0).toUpperCase() + monthNameLower.slice(1);
-  return `${monthNameCapitalized} de ${year}`;
+  return pack.formatMonth(monthName, year);
+}
+
+export function formatFileDate(year: number, month: number, day?: number): string {
+  const parts = [year.toString(), month.toString().padStart(2, '0')];
+  if (day) {
+    parts.push(day.toString().padStart(2, '0'));
+  }
+  return parts.join('-');
 }
 
 interface DateMatchInfo {
-  day: number;
+  day?: number;
+  endDay?: number;
   month: number;
   year: number;
   folderLabel: string;
+  warning?: string;
 }
 
-const DATE_PATTERN = /(\d{1,2})\s+de\s+([a-záéíóúñ]+)\s+de(?:l)?\s+(\d{4})/i;
-
-function extractDateFromFilename(fileName: string): DateMatchInfo | null {
-  const match = DATE_PATTERN.exec(fileName.toLowerCase());
-  if (!match) {
+function extractDateFromFilename(fileName: string, locales: LocaleSettings): DateMatchInfo | null {
+  const phrase = findDatePhrase(fileName, getLocalePacks(locales.parse));
+  if (!phrase) {
     return null;
   }
 
-  const day = parseInt(match[1], 10);
-  const monthName = match[2];
-  const year = parseInt(match[3], 10);
-
-  const month = SPANISH_MONTHS_MAP[monthName] || 0;
-
-  if (!isValidDateComponents(day, month, year)) {
+  const { day, endDay, month, year } = phrase;
+  if (!isValidDate(phrase)) {
     return null;
   }
 
-  const monthNameLower = MONTH_NAMES_LOWER[month];
-  if (!monthNameLower) {
+  const folderLabel = getDateFolderName({ year, month, day, endDay, diary: '' }, locales);
+  if (!folderLabel) {
     return null;
   }
 
-  const folderLabel = `${day} de ${monthNameLower} de ${year}`;
-  return { day, month, year, folderLabel };
-}
-
-function isValidDateComponents(day: number, month: number, year: number): boolean {
-  const validDay = day >= 1 && day <= 31;
-  const validMonth = month >= 1 && month <= 12;
-  const validYear = year >= 1900 && year <= 2100;
-  return validDay && validMonth && validYear;
+  const match: DateMatchInfo = { day, endDay, month, year, folderLabel };
+  const warning = getWeekdayWarning(phrase);
+  if (warning) {
+    match.warning = warning;
+  }
+  return match;
 }
 
-export async function previewDateFiles(inputPath: string): Promise<DatePreviewResult> {
+export async function previewDateFiles(
+  inputPath: string,
+  locales: LocaleSettings = DEFAULT_LOCALE_SETTINGS
+): Promise<DatePreviewResult> {
+  const packs = getLocalePacks(locales.parse);
   const result: DatePreviewResult = {
     success: false,
     items: [],
+    suggestions: [],
     totalFiles: 0,
     processableFiles: 0
   };
@@ -748,14 +1562,23 @@ export async function previewDateFiles(inputPath: string): Promise<DatePreviewRe
 
       result.totalFiles++;
 
-      const match = extractDateFromFilename(entry);
+      const match = extractDateFromFilename(entry, locales);
       if (match) {
+        const targetPath = path.join(inputPath, match.folderLabel);
         result.items.push({
           fileName: entry,
-          targetPath: path.join(inputPath, match.folderLabel),
-          targetPathLabel: match.folderLabel
+          targetPath,
+          targetPathLabel: match.folderLabel,
+          conflict: await fs.pathExists(path.join(targetPath, entry)) || undefined,
+          warning: match.warning
         });
         result.processableFiles++;
+      } else {
+        const baseName = entry.replace(FILE_EXTENSION, '');
+        const suggestion = suggestFileName(fullPath, baseName, packs, name => extractDateFromFilename(name, locales) !== null);
+        if (suggestion) {
+          result.suggestions.push(suggestion);
+        }
       }
     }
 
@@ -771,15 +1594,21 @@ export async function previewDateFiles(inputPath: string): Promise<DatePreviewRe
 export async function organizeFilesByDate(
   inputPath: string,
   selectedFiles: string[],
-  mode: 'move' | 'copy',
-  onProgress: ProgressCallback
+  options: DateProcessingOptions,
+  onProgress: ProgressCallback,
+  control?: JobControl
 ): Promise<ProcessingResult> {
+  const { mode, conflictPolicy } = options;
   const result: ProcessingResult = {
     success: false,
     processed: 0,
     errors: [],
-    destinations: []
+    destinations: [],
+    decisions: [],
+    rolledBack: [],
+    items: []
   };
+  let journal: Journal | null = null;
 
   try {
     if (!await fs.pathExists(inputPath)) {
@@ -805,12 +1634,14 @@ export async function organizeFilesByDate(
       const fullPath = fileMap.get(fileName);
       if (!fullPath) {
         validationErrors.push(`No se encontró el archivo ${fileName} en la carpeta seleccionada`);
+        result.items?.push({ fileName, outcome: 'failed', error: 'No se encontró en la carpeta seleccionada' });
         continue;
       }
 
-      const match = extractDateFromFilename(fileName);
+      const match = extractDateFromFilename(fileName, options.locales);
       if (!match) {
         validationErrors.push(`No se detectó una fecha válida en ${fileName}`);
+        result.items?.push({ fileName, outcome: 'failed', error: 'No se detectó una fecha válida' });
         continue;
       }
 
@@ -825,6 +1656,10 @@ export async function organizeFilesByDate(
       return result;
     }
 
+    const jobJournal = await openJournal(options.journalDir, 'date', options.rollbackScope, inputPath);
+    journal = jobJournal;
+    let batchFailed = false;
+
     const preparingLabel = mode === 'copy' ? 'Preparando copias...' : 'Preparando movimientos...';
     onProgress({
       current: 0,
@@ -837,6 +1672,19 @@ export async function organizeFilesByDate(
     for (let index = 0; index < tasks.length; index++) {
       const task = tasks[index];
 
+      // Files are moved or copied whole, so stopping between them never leaves a partial one
+      try {
+        await control?.checkpoint();
+      } catch (error) {
+        if (!(error instanceof JobCancelledError)) {
+          throw error;
+        }
+        result.cancelled = true;
+        result.pending = tasks.slice(index).map(pendingTask => pendingTask.fileName);
+        result.pending.forEach(fileName => result.items?.push({ fileName, outcome: 'pending' }));
+        break;
+      }
+
       const actionStatus = mode === 'copy' ? 'Copiando archivo...' : 'Moviendo archivo...';
       onProgress({
         current: index,
@@ -846,9 +1694,16 @@ export async function organizeFilesByDate(
         percentage: (index / tasks.length) * 100
       });
 
+      const operations = jobJournal.forUnit(task.fileName);
+      const item: ResultItem = {
+        fileName: task.fileName,
+        outcome: 'processed',
+        date: formatFileDate(task.match.year, task.match.month, task.match.day)
+      };
+
       try {
         const targetDir = path.join(inputPath, task.match.folderLabel);
-        await fs.ensureDir(targetDir);
+        await operations.ensureDir(targetDir);
 
         const currentDir = path.dirname(task.fullPath);
         const normalizedCurrentDir = path.resolve(currentDir);
@@ -856,29 +1711,70 @@ export async function organizeFilesByDate(
 
         if (normalizedCurrentDir === normalizedTargetDir) {
           console.log(`Archivo ya se encuentra en la carpeta destino: ${task.fileName}`);
+          result.items?.push({ ...item, targetPath: task.fullPath });
           result.processed++;
           destinationSet.add(normalizedTargetDir);
           continue;
         }
 
-        const targetPath = path.join(targetDir, task.fileName);
-        if (mode === 'copy') {
-          await fs.copy(task.fullPath, targetPath, { overwrite: true });
-        } else {
-          await fs.move(task.fullPath, targetPath, { overwrite: true });
-        }
+        const decision = await transferFile(
+          task.fullPath,
+          path.join(targetDir, task.fileName),
+          mode,
+          conflictPolicy,
+          task.fileName,
+          operations
+        );
+        await jobJournal.commitUnit(task.fileName);
+        result.items?.push({ ...item, targetPath: decision.targetPath });
+        result.decisions?.push(decision);
         result.processed++;
         destinationSet.add(path.resolve(targetDir));
       } catch (error) {
         const actionWord = mode === 'copy' ? 'copiando' : 'moviendo';
         console.error(`Error ${actionWord} el archivo ${task.fileName}:`, error);
         result.errors.push(`Error ${actionWord} ${task.fileName}: ${error instanceof Error ? error.message : 'Error desconocido'}`);
+
+        const rollback = await jobJournal.rollbackUnit(task.fileName);
+        result.errors.push(...rollback.failures);
+        if (rollback.units.length > 0) {
+          result.rolledBack?.push(task.fileName);
+        }
+        result.items?.push({
+          ...item,
+          outcome: rollback.units.length > 0 ? 'rolled-back' : 'failed',
+          error: error instanceof Error ? error.message : 'Error desconocido'
+        });
+        if (options.rollbackScope === 'batch') {
+          batchFailed = true;
+          result.pending = tasks.slice(index + 1).map(pendingTask => pendingTask.fileName);
+          result.pending.forEach(fileName => result.items?.push({ fileName, outcome: 'pending' }));
+          break;
+        }
       }
     }
 
-    const finishedLabel = mode === 'copy' ? 'Copia completada' : 'Movimiento completado';
+    if (batchFailed) {
+      const rollback = await jobJournal.rollbackAll();
+      result.errors.push(...rollback.failures);
+      result.rolledBack = Array.from(new Set([...(result.rolledBack || []), ...rollback.units]));
+      result.batchRolledBack = true;
+      result.processed = 0;
+      result.decisions = [];
+      destinationSet.clear();
+      result.items?.forEach(item => {
+        if (item.outcome === 'processed') {
+          item.outcome = 'rolled-back';
+        }
+      });
+    }
+
+    const finishedLabel = result.cancelled
+      ? 'Operación cancelada'
+      : batchFailed ? 'Lote revertido'
+      : mode === 'copy' ? 'Copia completada' : 'Movimiento completado';
     onProgress({
-      current: tasks.length,
+      current: result.cancelled ? tasks.length - (result.pending?.length || 0) : tasks.length,
       total: tasks.length,
       currentFile: '',
       status: finishedLabel,
@@ -890,7 +1786,7 @@ export async function organizeFilesByDate(
       result.destinations = Array.from(destinationSet);
     }
 
-    if (result.processed > 0) {
+    if (result.processed > 0 || result.cancelled) {
       result.success = true;
     } else {
       result.success = result.errors.length === 0;
@@ -901,5 +1797,7 @@ export async function organizeFilesByDate(
     console.error('Error organizing files by date:', error);
     result.error = error instanceof Error ? error.message : 'Error desconocido';
     return result;
+  } finally {
+    await journal?.finish();
   }
 }
\ No newline at end of file
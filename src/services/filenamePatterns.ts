@@ -0,0 +1,194 @@
+// Filename patterns with named placeholders, e.g. "{diary} - {day} de {month} de {year}"
+
+import { getDatePhraseSource, LocalePack } from './locales';
+
+export interface FilenamePattern {
+  pattern: string;
+  enabled: boolean;
+}
+
+export type PatternField = 'diary' | 'day' | 'month' | 'monthName' | 'year' | 'date' | 'edition' | 'supplement' | 'issue';
+
+export type PatternCaptures = Partial<Record<PatternField, string>>;
+
+export interface CompiledPattern {
+  source: string;
+  regex: RegExp;
+  fields: PatternField[];
+}
+
+export class FilenamePatternError extends Error {
+  constructor(pattern: string, detail: string) {
+    super(`Patrón no válido "${pattern}": ${detail}`);
+    this.name = 'FilenamePatternError';
+  }
+}
+
+const PLACEHOLDERS: Record<string, { field?: PatternField; regex: string }> = {
+  diary: { field: 'diary', regex: '(.+?)' },
+  day: { field: 'day', regex: '(\\d{1,2})' },
+  D: { field: 'day', regex: '(\\d{1,2})' },
+  DD: { field: 'day', regex: '(\\d{2})' },
+  month: { field: 'monthName', regex: '(\\p{L}+\\.?)' },
+  M: { field: 'month', regex: '(\\d{1,2})' },
+  MM: { field: 'month', regex: '(\\d{2})' },
+  year: { field: 'year', regex: '(\\d{4})' },
+  YYYY: { field: 'year', regex: '(\\d{4})' },
+  // A whole date in any of the recognised languages; the expression is built from the locale packs
+  date: { field: 'date', regex: '' },
+  edition: { field: 'edition', regex: '(.+?)' },
+  supplement: { field: 'supplement', regex: '(.+?)' },
+  issue: { field: 'issue', regex: '(\\d[\\d.,]*)' },
+  // Any text that is not needed, such as a scanner prefix
+  '*': { regex: '.*?' }
+};
+
+// Listed by priority: the first pattern that matches and gives a valid date wins
+export const DEFAULT_FILENAME_PATTERNS: FilenamePattern[] = [
+  { pattern: '{diary} - {date}', enabled: true },
+  { pattern: '{diary} - {month} {year}', enabled: true },
+  // Numeric dates were found anywhere in the name before rules existed, e.g. "Scan 1989-12-11_La Tercera"
+  { pattern: '{*}{year}[-|_]{M}[-|_]{D}[-|_]{diary}', enabled: true },
+  { pattern: '{*}{year}{MM}{DD}[-|_]{diary}', enabled: true },
+  { pattern: '{diary}[-|_]{year}[-|_]{M}[-|_]{D}{*}', enabled: true }
+];
+
+// Earlier defaults that saved settings may still hold, with the rule that replaced each one
+const REPLACED_DEFAULTS: Record<string, string> = {
+  '{year}[-|_]{M}[-|_]{D}[-|_]{diary}': '{*}{year}[-|_]{M}[-|_]{D}[-|_]{diary}',
+  '{year}{MM}{DD}[-|_]{diary}': '{*}{year}{MM}{DD}[-|_]{diary}',
+  '{diary}[-|_]{year}[-|_]{M}[-|_]{D}': '{diary}[-|_]{year}[-|_]{M}[-|_]{D}{*}'
+};
+
+export function upgradeFilenamePatterns(patterns: FilenamePattern[]): FilenamePattern[] {
+  return patterns.map(rule => REPLACED_DEFAULTS[rule.pattern] ? { ...rule, pattern: REPLACED_DEFAULTS[rule.pattern] } : rule);
+}
+
+type Token =
+  | { type: 'placeholder'; name: string }
+  | { type: 'choice'; options: string[] }
+  | { type: 'space' }
+  | { type: 'text'; value: string };
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function tokenize(pattern: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < pattern.length) {
+    const char = pattern[index];
+    if (char === '{' || char === '[') {
+      const close = pattern.indexOf(char === '{' ? '}' : ']', index);
+      if (close < 0) {
+        throw new FilenamePatternError(pattern, `falta cerrar "${char}"`);
+      }
+      const content = pattern.slice(index + 1, close);
+      if (char === '{') {
+        tokens.push({ type: 'placeholder', name: content.trim() });
+      } else {
+        tokens.push({ type: 'choice', options: content.split('|') });
+      }
+      index = close + 1;
+    } else if (/\s/.test(char)) {
+      while (index < pattern.length && /\s/.test(pattern[index])) {
+        index++;
+      }
+      tokens.push({ type: 'space' });
+    } else {
+      tokens.push({ type: 'text', value: char });
+      index++;
+    }
+  }
+
+  return tokens;
+}
+
+// Spaces next to punctuation are optional ("Diario - 1" and "Diario-1"); between words they are required
+function isPunctuation(token: Token | undefined): boolean {
+  if (!token) {
+    return true;
+  }
+  if (token.type === 'text') {
+    return !/[\p{L}\p{N}]/u.test(token.value);
+  }
+  if (token.type === 'choice') {
+    return token.options.every(option => !/[\p{L}\p{N}]/u.test(option));
+  }
+  return false;
+}
+
+export function compilePattern(pattern: string, packs: LocalePack[]): CompiledPattern {
+  const tokens = tokenize(pattern.trim());
+  const fields: PatternField[] = [];
+  let source = '';
+
+  tokens.forEach((token, index) => {
+    if (token.type === 'placeholder') {
+      const placeholder = PLACEHOLDERS[token.name];
+      if (!placeholder) {
+        throw new FilenamePatternError(pattern, `marcador desconocido {${token.name}}`);
+      }
+      if (placeholder.field) {
+        const sameField = placeholder.field === 'monthName' || placeholder.field === 'month'
+          ? fields.some(field => field === 'month' || field === 'monthName')
+          : fields.includes(placeholder.field);
+        if (sameField) {
+          throw new FilenamePatternError(pattern, `{${token.name}} aparece más de una vez`);
+        }
+        fields.push(placeholder.field);
+      }
+      source += placeholder.field === 'date' ? `(${getDatePhraseSource(packs)})` : placeholder.regex;
+    } else if (token.type === 'choice') {
+      source += `(?:${token.options.map(option => escapeRegex(option.trim())).join('|')})`;
+    } else if (token.type === 'space') {
+      source += isPunctuation(tokens[index - 1]) || isPunctuation(tokens[index + 1]) ? '\\s*' : '\\s+';
+    } else {
+      source += escapeRegex(token.value);
+    }
+  });
+
+  if (fields.includes('date')) {
+    if (fields.some(field => field === 'day' || field === 'month' || field === 'monthName' || field === 'year')) {
+      throw new FilenamePatternError(pattern, '{date} ya incluye el día, el mes y el año');
+    }
+    if (!fields.includes('diary')) {
+      throw new FilenamePatternError(pattern, 'necesita {diary}');
+    }
+  } else {
+    const hasMonth = fields.includes('month') || fields.includes('monthName');
+    if (!fields.includes('diary') || !fields.includes('year') || !hasMonth) {
+      throw new FilenamePatternError(pattern, 'necesita {diary} y una fecha ({date}, o {year} y un mes: {month}, {MM} o {M})');
+    }
+  }
+
+  return { source: pattern, regex: new RegExp(`^${source}$`, 'iu'), fields };
+}
+
+// Patterns that do not compile are skipped here; the settings screen reports them
+export function compilePatterns(patterns: FilenamePattern[], packs: LocalePack[]): CompiledPattern[] {
+  const compiled: CompiledPattern[] = [];
+  patterns.filter(pattern => pattern.enabled).forEach(pattern => {
+    try {
+      compiled.push(compilePattern(pattern.pattern, packs));
+    } catch (error) {
+      console.warn(error instanceof Error ? error.message : error);
+    }
+  });
+  return compiled;
+}
+
+export function matchPattern(compiled: CompiledPattern, name: string): PatternCaptures | null {
+  const match = name.match(compiled.regex);
+  if (!match) {
+    return null;
+  }
+
+  const captures: PatternCaptures = {};
+  compiled.fields.forEach((field, index) => {
+    captures[field] = match[index + 1];
+  });
+  return captures;
+}
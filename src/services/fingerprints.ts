@@ -0,0 +1,136 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+
+// skip: archives whose content is already in the library are not imported again; reimport: always import
+export type DuplicatePolicy = 'skip' | 'reimport';
+
+export interface FingerprintRecord {
+  fileName: string;
+  // sha256 over every volume, in order
+  archiveHash: string;
+  archiveSize: number;
+  // sha256 of every extracted file, sorted and without repeats
+  entries: string[];
+  // Relative to the Archivos folder, always with forward slashes
+  destination: string;
+  importedAt: string;
+}
+
+export interface FingerprintStore {
+  findByArchive: (archiveHash: string) => FingerprintRecord | undefined;
+  // Matches an earlier import that extracted exactly the same files, no more and no fewer
+  findByContent: (entryHashes: string[]) => FingerprintRecord | undefined;
+  // Records with this total size; lets the preview avoid hashing archives that cannot match
+  hasArchiveSize: (size: number) => boolean;
+  add: (record: FingerprintRecord) => Promise<void>;
+  // Forgets an import that was rolled back
+  remove: (record: FingerprintRecord) => Promise<void>;
+  // Forgets the imports of a job that was undone
+  removeWhere: (predicate: (record: FingerprintRecord) => boolean) => Promise<void>;
+}
+
+interface FingerprintFile {
+  version: 1;
+  records: FingerprintRecord[];
+}
+
+// Kept inside the library itself so the history travels with it to every machine that syncs the folder
+export function getFingerprintStorePath(archivosPath: string): string {
+  return path.join(archivosPath, '.archidrop', 'fingerprints.json');
+}
+
+export async function hashFile(filePath: string, onData?: (length: number) => void): Promise<string> {
+  const hash = crypto.createHash('sha256');
+  for await (const chunk of fs.createReadStream(filePath)) {
+    hash.update(chunk as Buffer);
+    onData?.((chunk as Buffer).length);
+  }
+  return hash.digest('hex');
+}
+
+// Multi-volume sets hash as one stream, so the same set under other names still matches
+export async function hashArchive(volumes: string[], onData?: (length: number) => void): Promise<string> {
+  const hash = crypto.createHash('sha256');
+  for (const volume of volumes) {
+    for await (const chunk of fs.createReadStream(volume)) {
+      hash.update(chunk as Buffer);
+      onData?.((chunk as Buffer).length);
+    }
+  }
+  return hash.digest('hex');
+}
+
+export async function getArchiveSize(volumes: string[]): Promise<number> {
+  let size = 0;
+  for (const volume of volumes) {
+    size += (await fs.stat(volume)).size;
+  }
+  return size;
+}
+
+async function readRecords(storePath: string): Promise<FingerprintRecord[]> {
+  if (!await fs.pathExists(storePath)) {
+    return [];
+  }
+
+  try {
+    const data = await fs.readJson(storePath) as FingerprintFile;
+    return Array.isArray(data.records) ? data.records : [];
+  } catch (error) {
+    // Keep the unreadable file for inspection instead of silently overwriting the history
+    console.warn(`Fingerprint store is unreadable, starting a new one: ${storePath}`, error);
+    await fs.move(storePath, `${storePath}.bak`, { overwrite: true });
+    return [];
+  }
+}
+
+export async function openFingerprintStore(archivosPath: string): Promise<FingerprintStore> {
+  const storePath = getFingerprintStorePath(archivosPath);
+  const records = await readRecords(storePath);
+  // Workers finish concurrently; writes are chained so the file is never written twice at once
+  let saving: Promise<void> = Promise.resolve();
+
+  const save = (): Promise<void> => {
+    saving = saving
+      .then(async () => {
+        await fs.ensureDir(path.dirname(storePath));
+        const data: FingerprintFile = { version: 1, records };
+        await fs.writeJson(`${storePath}.tmp`, data, { spaces: 2 });
+        await fs.move(`${storePath}.tmp`, storePath, { overwrite: true });
+      })
+      // The files are already in place; a lost record only means a later duplicate is not recognised
+      .catch(error => console.warn(`Could not save the fingerprint store: ${storePath}`, error));
+    return saving;
+  };
+
+  return {
+    // Newest first, so a re-imported archive points at its latest destination
+    findByArchive: archiveHash => [...records].reverse().find(record => record.archiveHash === archiveHash),
+    findByContent: entryHashes => {
+      if (entryHashes.length === 0) {
+        return undefined;
+      }
+      const wanted = new Set(entryHashes);
+      return [...records].reverse().find(record =>
+        record.entries.length === wanted.size && record.entries.every(entryHash => wanted.has(entryHash)));
+    },
+    hasArchiveSize: size => records.some(record => record.archiveSize === size),
+    add: record => {
+      records.push(record);
+      return save();
+    },
+    remove: record => {
+      const index = records.indexOf(record);
+      if (index >= 0) {
+        records.splice(index, 1);
+      }
+      return save();
+    },
+    removeWhere: predicate => {
+      const kept = records.filter(record => !predicate(record));
+      records.splice(0, records.length, ...kept);
+      return save();
+    }
+  };
+}
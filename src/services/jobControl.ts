@@ -0,0 +1,60 @@
+// Raised at a checkpoint once the user has cancelled the running job
+export class JobCancelledError extends Error {
+  constructor() {
+    super('Procesamiento cancelado por el usuario');
+    this.name = 'JobCancelledError';
+  }
+}
+
+export interface JobControl {
+  readonly cancelled: boolean;
+  readonly paused: boolean;
+  cancel: () => void;
+  pause: () => void;
+  resume: () => void;
+  // Waits while paused and throws JobCancelledError once cancelled; only call it where stopping is safe
+  checkpoint: () => Promise<void>;
+}
+
+export function createJobControl(): JobControl {
+  let cancelled = false;
+  let paused = false;
+  let waiters: Array<() => void> = [];
+
+  const release = () => {
+    const pending = waiters;
+    waiters = [];
+    pending.forEach(resolve => resolve());
+  };
+
+  return {
+    get cancelled() {
+      return cancelled;
+    },
+    get paused() {
+      return paused;
+    },
+    cancel: () => {
+      cancelled = true;
+      paused = false;
+      release();
+    },
+    pause: () => {
+      if (!cancelled) {
+        paused = true;
+      }
+    },
+    resume: () => {
+      paused = false;
+      release();
+    },
+    checkpoint: async () => {
+      while (paused && !cancelled) {
+        await new Promise<void>(resolve => waiters.push(resolve));
+      }
+      if (cancelled) {
+        throw new JobCancelledError();
+      }
+    }
+  };
+}
@@ -0,0 +1,512 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { isSameVolume } from './diskSpace';
+import { isProcessAlive } from './workspace';
+
+const JOURNAL_FILE = 'journal.jsonl';
+const BACKUP_DIR = 'backup';
+// Hidden folder next to a file on another volume than the journal, so taking it away stays a rename
+const LOCAL_BACKUP_DIR = '.archidrop-backup';
+
+export type TransferMode = 'move' | 'copy';
+
+// archive: only the archive (or file) that failed is undone; batch: any failure undoes the whole job
+export type RollbackScope = 'archive' | 'batch';
+
+export type JournalJobKind = 'zip' | 'date';
+
+// The file operations the processors need; the journal implements them reversibly
+export interface FileOperations {
+  ensureDir: (dirPath: string) => Promise<void>;
+  // Moves or copies source to a target that must not exist yet
+  place: (source: string, target: string, mode: TransferMode) => Promise<void>;
+  // Takes a file out of the way; with a journal it is kept on its own volume until the job leaves the history
+  remove: (target: string) => Promise<void>;
+}
+
+export const directFileOperations: FileOperations = {
+  ensureDir: dirPath => fs.ensureDir(dirPath),
+  place: async (source, target, mode) => {
+    if (mode === 'copy') {
+      // Copies keep the source timestamps so a later "newer" comparison stays meaningful
+      await fs.copy(source, target, { overwrite: false, errorOnExist: true, preserveTimestamps: true });
+    } else {
+      await fs.move(source, target, { overwrite: false });
+    }
+  },
+  remove: target => fs.remove(target)
+};
+
+type JournalOperation =
+  | { op: 'mkdir'; target: string }
+  | { op: 'place'; target: string; source: string; mode: TransferMode }
+  | { op: 'remove'; target: string; backup: string };
+
+type JournalEntry =
+  | { type: 'begin'; pid: number; kind: JournalJobKind; scope: RollbackScope; inputPath: string; startedAt: string }
+  // Written before the operation runs; "done" follows once it succeeded
+  | ({ type: 'op'; seq: number; unit: string } & JournalOperation)
+  | { type: 'done'; seq: number }
+  | { type: 'unit'; unit: string; status: 'committed' | 'rolled-back' }
+  // The job ended normally; the journal stays on disk so it can be undone later
+  | { type: 'end'; finishedAt: string };
+
+export interface RollbackOutcome {
+  // Units that had operations to undo
+  units: string[];
+  // What could not be restored; its backup is kept
+  failures: string[];
+}
+
+export interface Journal {
+  id: string;
+  forUnit: (unit: string) => FileOperations;
+  commitUnit: (unit: string) => Promise<void>;
+  // Undo the operations of one archive (or file), newest first
+  rollbackUnit: (unit: string) => Promise<RollbackOutcome>;
+  // Undo every unit that is not rolled back yet, committed ones included
+  rollbackAll: () => Promise<RollbackOutcome>;
+  // Keeps the journal as undo history when something was committed, otherwise drops it
+  finish: () => Promise<void>;
+}
+
+export interface InterruptedJournal {
+  id: string;
+  kind: JournalJobKind;
+  scope: RollbackScope;
+  inputPath: string;
+  startedAt: string;
+  // Units with operations that were never committed nor rolled back
+  pending: string[];
+  committed: string[];
+  operations: number;
+}
+
+export interface UndoableJob {
+  id: string;
+  kind: JournalJobKind;
+  inputPath: string;
+  startedAt: string;
+  finishedAt: string;
+  // Units whose changes are still in place
+  units: string[];
+  operations: number;
+  // A newer job changed some of the same files, so this one has to wait until that one is undone
+  blockedBy?: string;
+}
+
+export interface UndoOutcome {
+  kind: JournalJobKind;
+  startedAt: string;
+  units: string[];
+  failures: string[];
+}
+
+// Journals of jobs running in this process, never reported as interrupted
+const activeJournals = new Set<string>();
+
+async function readEntries(journalPath: string): Promise<JournalEntry[]> {
+  const content = await fs.readFile(journalPath, 'utf8');
+  const entries: JournalEntry[] = [];
+  for (const line of content.split('\n')) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      entries.push(JSON.parse(line) as JournalEntry);
+    } catch (error) {
+      // A crash can cut the last line short; that operation never started
+      console.warn(`Ignoring unreadable journal line in ${journalPath}`);
+    }
+  }
+  return entries;
+}
+
+async function isEmptyDir(dirPath: string): Promise<boolean> {
+  return (await fs.readdir(dirPath)).length === 0;
+}
+
+// Drops a journal with its backups, including the ones kept next to the files on other volumes
+async function removeJournalDir(dir: string): Promise<void> {
+  const journalPath = path.join(dir, JOURNAL_FILE);
+  const entries = await fs.pathExists(journalPath) ? await readEntries(journalPath) : [];
+
+  for (const entry of entries) {
+    if (entry.type !== 'op' || entry.op !== 'remove' || !path.relative(dir, entry.backup).startsWith('..')) {
+      continue;
+    }
+    try {
+      await fs.remove(entry.backup);
+      // The job folder, then the hidden folder once no other job uses it
+      for (const parent of [path.dirname(entry.backup), path.dirname(path.dirname(entry.backup))]) {
+        if (await fs.pathExists(parent) && await isEmptyDir(parent)) {
+          await fs.rmdir(parent);
+        }
+      }
+    } catch (error) {
+      console.warn(`Could not remove backup ${entry.backup}:`, error);
+    }
+  }
+
+  await fs.remove(dir);
+}
+
+// Every step checks the current state first, so it is safe to repeat after a crash halfway through a rollback
+async function undoOperation(operation: JournalOperation): Promise<void> {
+  if (operation.op === 'mkdir') {
+    if (await fs.pathExists(operation.target) && await isEmptyDir(operation.target)) {
+      await fs.rmdir(operation.target);
+    }
+    return;
+  }
+
+  if (operation.op === 'remove') {
+    if (await fs.pathExists(operation.backup) && !await fs.pathExists(operation.target)) {
+      await fs.ensureDir(path.dirname(operation.target));
+      await fs.move(operation.backup, operation.target);
+    }
+    return;
+  }
+
+  if (!await fs.pathExists(operation.target)) {
+    return;
+  }
+  // Moved files go back where they came from while that folder still exists (the input folder, a live workspace)
+  if (operation.mode === 'move' && await fs.pathExists(path.dirname(operation.source))) {
+    // Another file took its place meanwhile; deleting either one would lose data
+    if (await fs.pathExists(operation.source)) {
+      throw new Error(`La ubicación original ya está ocupada: ${operation.source}`);
+    }
+    await fs.move(operation.target, operation.source);
+  } else {
+    await fs.remove(operation.target);
+  }
+}
+
+async function undoOperations(entries: JournalEntry[], units: Set<string>): Promise<string[]> {
+  const failures: string[] = [];
+  const operations = entries
+    .filter((entry): entry is Extract<JournalEntry, { type: 'op' }> => entry.type === 'op' && units.has(entry.unit))
+    .sort((first, second) => second.seq - first.seq);
+
+  for (const operation of operations) {
+    try {
+      await undoOperation(operation);
+    } catch (error) {
+      console.error(`Could not undo ${operation.op} of ${operation.target}:`, error);
+      failures.push(`No se pudo restaurar ${operation.target}: ${error instanceof Error ? error.message : 'Error desconocido'}`);
+    }
+  }
+  return failures;
+}
+
+function getUnitStatus(entries: JournalEntry[]): Map<string, 'committed' | 'rolled-back'> {
+  const status = new Map<string, 'committed' | 'rolled-back'>();
+  entries.forEach(entry => {
+    if (entry.type === 'unit') {
+      status.set(entry.unit, entry.status);
+    }
+  });
+  return status;
+}
+
+function getUnitsWithOperations(entries: JournalEntry[]): string[] {
+  const units: string[] = [];
+  entries.forEach(entry => {
+    if (entry.type === 'op' && !units.includes(entry.unit)) {
+      units.push(entry.unit);
+    }
+  });
+  return units;
+}
+
+function findBegin(entries: JournalEntry[]): Extract<JournalEntry, { type: 'begin' }> | undefined {
+  return entries.find((entry): entry is Extract<JournalEntry, { type: 'begin' }> => entry.type === 'begin');
+}
+
+function findEnd(entries: JournalEntry[]): Extract<JournalEntry, { type: 'end' }> | undefined {
+  return entries.find((entry): entry is Extract<JournalEntry, { type: 'end' }> => entry.type === 'end');
+}
+
+function getCommittedUnits(entries: JournalEntry[]): string[] {
+  const status = getUnitStatus(entries);
+  return getUnitsWithOperations(entries).filter(unit => status.get(unit) === 'committed');
+}
+
+export async function openJournal(
+  journalDir: string,
+  kind: JournalJobKind,
+  scope: RollbackScope,
+  inputPath: string
+): Promise<Journal> {
+  const id = `${kind}-${Date.now()}-${process.pid}`;
+  const dir = path.join(journalDir, id);
+  const backupDir = path.join(dir, BACKUP_DIR);
+  const journalPath = path.join(dir, JOURNAL_FILE);
+
+  await fs.ensureDir(backupDir);
+  const handle = await fs.promises.open(journalPath, 'a');
+  activeJournals.add(id);
+
+  const entries: JournalEntry[] = [];
+  let seq = 0;
+  let backups = 0;
+  let keepOnDisk = false;
+  const backupDirs = new Map<string, string>();
+  let writing: Promise<void> = Promise.resolve();
+
+  // Entries are flushed to disk before the operation they describe starts
+  const append = (entry: JournalEntry): Promise<void> => {
+    entries.push(entry);
+    const write = writing.then(async () => {
+      await handle.write(`${JSON.stringify(entry)}\n`);
+      await handle.datasync();
+    });
+    writing = write.catch(() => undefined);
+    return write;
+  };
+
+  const run = async (unit: string, operation: JournalOperation, action: () => Promise<void>): Promise<void> => {
+    const entrySeq = ++seq;
+    await append({ type: 'op', seq: entrySeq, unit, ...operation });
+    await action();
+    await append({ type: 'done', seq: entrySeq });
+  };
+
+  await append({ type: 'begin', pid: process.pid, kind, scope, inputPath, startedAt: new Date().toISOString() });
+
+  const forUnit = (unit: string): FileOperations => ({
+    ensureDir: async dirPath => {
+      // Record every missing level, outermost first, so the rollback can remove the ones left empty
+      const missing: string[] = [];
+      let current = path.resolve(dirPath);
+      while (!await fs.pathExists(current) && path.dirname(current) !== current) {
+        missing.unshift(current);
+        current = path.dirname(current);
+      }
+      for (const target of missing) {
+        await run(unit, { op: 'mkdir', target }, () => fs.ensureDir(target));
+      }
+    },
+    place: async (source, target, mode) => {
+      // Checked before logging: undoing a place removes its target, which must never be a file that was already there
+      if (await fs.pathExists(target)) {
+        throw new Error(`El destino ya existe: ${target}`);
+      }
+      await run(unit, { op: 'place', target, source, mode }, () => directFileOperations.place(source, target, mode));
+    },
+    remove: async target => {
+      // A move across volumes would copy the whole file and free nothing where it was
+      const folder = path.dirname(target);
+      let targetBackupDir = backupDirs.get(folder);
+      if (!targetBackupDir) {
+        targetBackupDir = await isSameVolume(folder, backupDir) ? backupDir : path.join(folder, LOCAL_BACKUP_DIR, id);
+        backupDirs.set(folder, targetBackupDir);
+      }
+      const backup = path.join(targetBackupDir, `${++backups}-${path.basename(target)}`);
+      await run(unit, { op: 'remove', target, backup }, () => fs.move(target, backup));
+    }
+  });
+
+  const rollback = async (units: string[]): Promise<RollbackOutcome> => {
+    const withOperations = getUnitsWithOperations(entries).filter(unit => units.includes(unit));
+    const failures = await undoOperations(entries, new Set(withOperations));
+    if (failures.length > 0) {
+      // Left pending with their backups, so the next startup offers to retry the rollback
+      keepOnDisk = true;
+    } else {
+      for (const unit of units) {
+        await append({ type: 'unit', unit, status: 'rolled-back' });
+      }
+    }
+    return { units: withOperations, failures };
+  };
+
+  return {
+    id,
+    forUnit,
+    commitUnit: unit => append({ type: 'unit', unit, status: 'committed' }),
+    rollbackUnit: unit => rollback([unit]),
+    rollbackAll: () => {
+      const status = getUnitStatus(entries);
+      return rollback(getUnitsWithOperations(entries).filter(unit => status.get(unit) !== 'rolled-back'));
+    },
+    finish: async () => {
+      const status = getUnitStatus(entries);
+      const hasChanges = getUnitsWithOperations(entries).some(unit => status.get(unit) === 'committed');
+      if (hasChanges && !keepOnDisk) {
+        await append({ type: 'end', finishedAt: new Date().toISOString() }).catch(error => {
+          console.warn(`Could not close journal ${dir}:`, error);
+        });
+      }
+      await writing;
+      await handle.close();
+      if (keepOnDisk) {
+        // Reported as interrupted at the next startup, where the rollback can be retried
+        console.warn(`Keeping journal ${dir}: some operations could not be undone`);
+      } else if (!hasChanges) {
+        try {
+          await removeJournalDir(dir);
+        } catch (error) {
+          console.warn(`Could not remove journal ${dir}:`, error);
+        }
+      }
+      activeJournals.delete(id);
+    }
+  };
+}
+
+export async function findInterruptedJournals(journalDir: string): Promise<InterruptedJournal[]> {
+  if (!await fs.pathExists(journalDir)) {
+    return [];
+  }
+
+  const journals: InterruptedJournal[] = [];
+  for (const id of await fs.readdir(journalDir)) {
+    const journalPath = path.join(journalDir, id, JOURNAL_FILE);
+    if (activeJournals.has(id) || !await fs.pathExists(journalPath)) {
+      continue;
+    }
+
+    const entries = await readEntries(journalPath);
+    const begin = findBegin(entries);
+    // Finished jobs are undo history; a job of another running instance is still being written
+    if (!begin || findEnd(entries) || (begin.pid !== process.pid && isProcessAlive(begin.pid))) {
+      continue;
+    }
+
+    const status = getUnitStatus(entries);
+    const units = getUnitsWithOperations(entries);
+    journals.push({
+      id,
+      kind: begin.kind,
+      scope: begin.scope,
+      inputPath: begin.inputPath,
+      startedAt: begin.startedAt,
+      pending: units.filter(unit => !status.has(unit)),
+      committed: units.filter(unit => status.get(unit) === 'committed'),
+      operations: entries.filter(entry => entry.type === 'op').length
+    });
+  }
+
+  return journals;
+}
+
+// rollback undoes what the interrupted job left unfinished (everything, for batch jobs); keep accepts it as is
+export async function recoverJournal(journalDir: string, id: string, action: 'rollback' | 'keep'): Promise<string[]> {
+  const interrupted = (await findInterruptedJournals(journalDir)).find(journal => journal.id === id);
+  if (!interrupted) {
+    throw new Error('El registro de operaciones ya no existe');
+  }
+
+  const dir = path.join(journalDir, id);
+  let failures: string[] = [];
+  if (action === 'rollback') {
+    const entries = await readEntries(path.join(dir, JOURNAL_FILE));
+    const units = interrupted.scope === 'batch'
+      ? [...interrupted.pending, ...interrupted.committed]
+      : interrupted.pending;
+    failures = await undoOperations(entries, new Set(units));
+  }
+
+  // Backups that could not be restored stay on disk so nothing is lost
+  if (failures.length === 0) {
+    await removeJournalDir(dir);
+  }
+  return failures;
+}
+
+interface FinishedJournal {
+  job: UndoableJob;
+  // Every file the job placed, replaced or took away
+  paths: Set<string>;
+}
+
+async function readFinishedJournals(journalDir: string): Promise<FinishedJournal[]> {
+  if (!await fs.pathExists(journalDir)) {
+    return [];
+  }
+
+  const finished: FinishedJournal[] = [];
+  for (const id of await fs.readdir(journalDir)) {
+    const journalPath = path.join(journalDir, id, JOURNAL_FILE);
+    if (activeJournals.has(id) || !await fs.pathExists(journalPath)) {
+      continue;
+    }
+
+    const entries = await readEntries(journalPath);
+    const begin = findBegin(entries);
+    const end = findEnd(entries);
+    if (!begin || !end) {
+      continue;
+    }
+
+    const units = getCommittedUnits(entries);
+    const paths = new Set<string>();
+    entries.forEach(entry => {
+      if (entry.type !== 'op' || !units.includes(entry.unit) || entry.op === 'mkdir') {
+        return;
+      }
+      paths.add(entry.target);
+      if (entry.op === 'place' && entry.mode === 'move') {
+        paths.add(entry.source);
+      }
+    });
+    finished.push({
+      job: {
+        id,
+        kind: begin.kind,
+        inputPath: begin.inputPath,
+        startedAt: begin.startedAt,
+        finishedAt: end.finishedAt,
+        units,
+        operations: entries.filter(entry => entry.type === 'op' && units.includes(entry.unit)).length
+      },
+      paths
+    });
+  }
+
+  // Newest first
+  return finished.sort((first, second) => second.job.finishedAt.localeCompare(first.job.finishedAt));
+}
+
+export async function listUndoableJobs(journalDir: string): Promise<UndoableJob[]> {
+  const finished = await readFinishedJournals(journalDir);
+  return finished.map(({ job, paths }, index) => {
+    // Undoing out of order would delete or restore files a newer job has already replaced
+    const newer = finished.slice(0, index).reverse().find(other => Array.from(other.paths).some(filePath => paths.has(filePath)));
+    return newer ? { ...job, blockedBy: newer.job.id } : job;
+  });
+}
+
+// Drops the oldest finished jobs (and their backups) beyond the history size
+export async function pruneJobHistory(journalDir: string, historySize: number): Promise<void> {
+  const finished = await readFinishedJournals(journalDir);
+  for (const { job } of finished.slice(Math.max(historySize, 0))) {
+    try {
+      await removeJournalDir(path.join(journalDir, job.id));
+    } catch (error) {
+      console.warn(`Could not remove old journal ${job.id}:`, error);
+    }
+  }
+}
+
+// Restores every file of a finished job to where it was and removes the folders it left empty
+export async function undoJob(journalDir: string, id: string): Promise<UndoOutcome> {
+  const job = (await listUndoableJobs(journalDir)).find(item => item.id === id);
+  if (!job) {
+    throw new Error('La operación ya no se puede deshacer');
+  }
+  if (job.blockedBy) {
+    throw new Error('Primero hay que deshacer una operación más reciente que modificó los mismos archivos');
+  }
+
+  const dir = path.join(journalDir, id);
+  const entries = await readEntries(path.join(dir, JOURNAL_FILE));
+  const failures = await undoOperations(entries, new Set(job.units));
+  // With failures the journal stays, and undoing again retries only what is still in place
+  if (failures.length === 0) {
+    await removeJournalDir(dir);
+  }
+  return { kind: job.kind, startedAt: job.startedAt, units: job.units, failures };
+}
@@ -0,0 +1,487 @@
+// Language packs: month names and date phrases recognised in file names, and the names of the folders that are created
+
+import { getDaysInMonth, isValidDate } from './calendar';
+
+export type LocaleId = 'es' | 'pt-BR' | 'en' | 'ca';
+
+export interface LocalePack {
+  id: LocaleId;
+  label: string;
+  // Full names in lower case, January first
+  months: string[];
+  // Abbreviations and alternative spellings, by month number
+  abbreviations: Record<number, string[]>;
+  // Full names in lower case, Sunday first as in Date.getDay()
+  weekdays: string[];
+  // Suffixes written after a day number, such as "º" or "th"
+  ordinals: string[];
+  // Words joining the two days of a range, besides a dash
+  rangeWords: string[];
+  // Complete dates, most specific first
+  grammars: (parts: GrammarParts) => string[];
+  // A month and a year without a day, such as "dic. 1989"
+  monthGrammars: (parts: GrammarParts) => string[];
+  // Folder label for a month outside 1-12
+  unknownMonth: string;
+  // day is a number or a range label such as "11-17"
+  formatDay: (day: number | string, monthName: string, year: number) => string;
+  formatMonth: (monthName: string, year: number) => string;
+  // Edition, supplement and issue number written in a file name, each with a named group value
+  markers: Record<'edition' | 'supplement' | 'issue', string[]>;
+  // Folder names for those values
+  formatEdition: (edition: string) => string;
+  formatSupplement: (supplement: string) => string;
+  formatIssue: (issue: number) => string;
+}
+
+// Pieces of a grammar with the named groups weekday, day, endDay, month and year
+export interface GrammarParts {
+  weekday: string;
+  day: string;
+  month: string;
+  year: string;
+}
+
+// range: weekly issues go to a folder such as "11-17 de diciembre de 1989"; first-day: to the folder of the first day
+export type DateRangeMode = 'range' | 'first-day';
+
+export interface LocaleSettings {
+  // Packs used to read file names, by priority
+  parse: LocaleId[];
+  // Language of the month and date folders that are created
+  output: LocaleId;
+  ranges: DateRangeMode;
+}
+
+export interface DatePhrase {
+  // Missing for a month and year such as "dic. 1989"
+  day?: number;
+  // Last day of a range such as "11-17 de diciembre"
+  endDay?: number;
+  month: number;
+  year: number;
+  // Day of the week named in the text, Sunday being 0
+  weekday?: number;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function stripAccents(text: string): string {
+  return text.normalize('NFD').replace(/\p{M}/gu, '');
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Both "miércoles" and "miercoles", longest first so "sábado" is not cut short
+function alternatives(words: string[]): string {
+  const variants = new Set(words.flatMap(word => [word, stripAccents(word)]));
+  return Array.from(variants).sort((a, b) => b.length - a.length).map(escapeRegex).join('|');
+}
+
+// Words up to the next separator or number: "vespertina" in "Edición vespertina - 1 de enero"
+const TEXT_VALUE = '(?<value>[^\\d\\-_–]+?)(?=\\s*(?:[-_–]|\\d|$))';
+// 14532, 14.532 or 14,532
+const ISSUE_VALUE = '(?<value>\\d{1,3}(?:[.,]\\d{3})+|\\d+)(?!\\d)';
+
+function buildGrammarParts(pack: LocalePack): GrammarParts {
+  const ordinal = `(?:${alternatives(pack.ordinals)})?`;
+  const connector = `(?:-|–|${pack.rangeWords.map(word => `\\s${escapeRegex(word)}\\s`).join('|')})`;
+  return {
+    weekday: `(?:(?<!\\p{L})(?<weekday>${alternatives(pack.weekdays)})\\.?,?\\s+)?`,
+    day: `(?<!\\d)(?<day>\\d{1,2})${ordinal}(?:\\s*${connector}\\s*(?<endDay>\\d{1,2})${ordinal})?`,
+    month: '(?<!\\p{L})(?<month>\\p{L}+\\.?)',
+    year: '(?<year>\\d{4})(?!\\d)'
+  };
+}
+
+export const LOCALE_PACKS: Record<LocaleId, LocalePack> = {
+  es: {
+    id: 'es',
+    label: 'Español',
+    months: [
+      'enero', 'febrero', 'marzo', 'abril', 'mayo', 'junio',
+      'julio', 'agosto', 'septiembre', 'octubre', 'noviembre', 'diciembre'
+    ],
+    abbreviations: {
+      1: ['ene'], 2: ['feb'], 3: ['mar'], 4: ['abr'], 5: ['may'], 6: ['jun'],
+      7: ['jul'], 8: ['ago'], 9: ['sep', 'set', 'sept', 'setiembre'], 10: ['oct'], 11: ['nov'], 12: ['dic']
+    },
+    weekdays: ['domingo', 'lunes', 'martes', 'miércoles', 'jueves', 'viernes', 'sábado'],
+    // 1°, 1º, 1ro, 1er, 2do, 4to, 7mo, 8vo, 9no
+    ordinals: ['°', 'º', 'ro', 'er', 'do', 'to', 'mo', 'vo', 'no'],
+    rangeWords: ['al', 'a'],
+    grammars: ({ weekday, day, month, year }) => [`${weekday}${day}\\s+de\\s+${month}\\s+del?\\s+${year}`],
+    monthGrammars: ({ month, year }) => [`${month}\\s+(?:del?\\s+)?${year}`],
+    unknownMonth: 'Mes',
+    formatDay: (day, monthName, year) => `${day} de ${monthName} de ${year}`,
+    formatMonth: (monthName, year) => `${capitalize(monthName)} de ${year}`,
+    markers: {
+      edition: [`(?<!\\p{L})(?:edici[oó]n|ed\\.)\\s+${TEXT_VALUE}`],
+      supplement: [`(?<!\\p{L})(?:suplemento|supl\\.)\\s+${TEXT_VALUE}`],
+      issue: [`(?<!\\p{L})(?:n\\s?[°º]|n[uú]m\\.?|n[uú]mero|nro\\.?)\\s*${ISSUE_VALUE}`]
+    },
+    formatEdition: edition => `Edición ${edition}`,
+    formatSupplement: supplement => `Suplemento ${supplement}`,
+    formatIssue: issue => `N° ${issue}`
+  },
+  'pt-BR': {
+    id: 'pt-BR',
+    label: 'Português (Brasil)',
+    months: [
+      'janeiro', 'fevereiro', 'março', 'abril', 'maio', 'junho',
+      'julho', 'agosto', 'setembro', 'outubro', 'novembro', 'dezembro'
+    ],
+    abbreviations: {
+      1: ['jan'], 2: ['fev'], 3: ['mar'], 4: ['abr'], 5: ['mai'], 6: ['jun'],
+      7: ['jul'], 8: ['ago'], 9: ['set'], 10: ['out'], 11: ['nov'], 12: ['dez']
+    },
+    weekdays: ['domingo', 'segunda-feira', 'terça-feira', 'quarta-feira', 'quinta-feira', 'sexta-feira', 'sábado'],
+    ordinals: ['°', 'º', 'o'],
+    rangeWords: ['a'],
+    grammars: ({ weekday, day, month, year }) => [`${weekday}${day}\\s+de\\s+${month}\\s+de\\s+${year}`],
+    monthGrammars: ({ month, year }) => [`${month}\\s+(?:de\\s+)?${year}`],
+    unknownMonth: 'Mês',
+    formatDay: (day, monthName, year) => `${day} de ${monthName} de ${year}`,
+    formatMonth: (monthName, year) => `${capitalize(monthName)} de ${year}`,
+    markers: {
+      edition: [`(?<!\\p{L})(?:edi[cç][aã]o|ed\\.)\\s+${TEXT_VALUE}`],
+      supplement: [`(?<!\\p{L})(?:suplemento|caderno)\\s+${TEXT_VALUE}`],
+      issue: [`(?<!\\p{L})(?:n\\s?[°º]|n[uú]mero)\\s*${ISSUE_VALUE}`]
+    },
+    formatEdition: edition => `Edição ${edition}`,
+    formatSupplement: supplement => `Suplemento ${supplement}`,
+    formatIssue: issue => `Nº ${issue}`
+  },
+  en: {
+    id: 'en',
+    label: 'English',
+    months: [
+      'january', 'february', 'march', 'april', 'may', 'june',
+      'july', 'august', 'september', 'october', 'november', 'december'
+    ],
+    abbreviations: {
+      1: ['jan'], 2: ['feb'], 3: ['mar'], 4: ['apr'], 5: ['may'], 6: ['jun'],
+      7: ['jul'], 8: ['aug'], 9: ['sep', 'sept'], 10: ['oct'], 11: ['nov'], 12: ['dec']
+    },
+    weekdays: ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'],
+    ordinals: ['st', 'nd', 'rd', 'th'],
+    rangeWords: ['to'],
+    grammars: ({ weekday, day, month, year }) => [
+      // Monday, December 11, 1989
+      `${weekday}${month}\\s+${day},?\\s+${year}`,
+      // 11 December 1989, 11th of December, 1989
+      `${weekday}${day}\\s+(?:of\\s+)?${month},?\\s+${year}`
+    ],
+    monthGrammars: ({ month, year }) => [`${month},?\\s+${year}`],
+    unknownMonth: 'Month',
+    formatDay: (day, monthName, year) => `${capitalize(monthName)} ${day}, ${year}`,
+    formatMonth: (monthName, year) => `${capitalize(monthName)} ${year}`,
+    markers: {
+      // Evening edition, Edition Sunday
+      edition: [`(?<!\\p{L})(?<value>\\p{L}+)\\s+edition(?!\\p{L})`, `(?<!\\p{L})edition\\s+${TEXT_VALUE}`],
+      supplement: [`(?<!\\p{L})(?<value>\\p{L}+)\\s+supplement(?!\\p{L})`, `(?<!\\p{L})supplement\\s+${TEXT_VALUE}`],
+      issue: [`(?<!\\p{L})(?:no\\.|issue|#)\\s*${ISSUE_VALUE}`]
+    },
+    formatEdition: edition => `${capitalize(edition)} edition`,
+    formatSupplement: supplement => `${capitalize(supplement)} supplement`,
+    formatIssue: issue => `No. ${issue}`
+  },
+  ca: {
+    id: 'ca',
+    label: 'Català',
+    months: [
+      'gener', 'febrer', 'març', 'abril', 'maig', 'juny',
+      'juliol', 'agost', 'setembre', 'octubre', 'novembre', 'desembre'
+    ],
+    abbreviations: {
+      1: ['gen'], 2: ['feb', 'febr'], 3: ['mar'], 4: ['abr'], 5: [], 6: [],
+      7: ['jul'], 8: ['ag'], 9: ['set'], 10: ['oct'], 11: ['nov'], 12: ['des']
+    },
+    weekdays: ['diumenge', 'dilluns', 'dimarts', 'dimecres', 'dijous', 'divendres', 'dissabte'],
+    // 1r, 2n, 3r, 4t
+    ordinals: ['°', 'º', 'r', 'n', 't'],
+    rangeWords: ['al'],
+    // "11 de desembre de 1989", "11 d'abril de 1989"
+    grammars: ({ weekday, day, month, year }) => [`${weekday}${day}\\s+(?:de\\s+|d['’]\\s*)${month}\\s+de\\s+${year}`],
+    monthGrammars: ({ month, year }) => [`${month}\\s+(?:de\\s+)?${year}`],
+    unknownMonth: 'Mes',
+    formatDay: (day, monthName, year) => `${day} ${/^[aeiou]/.test(monthName) ? "d'" : 'de '}${monthName} de ${year}`,
+    formatMonth: (monthName, year) => `${capitalize(monthName)} de ${year}`,
+    markers: {
+      edition: [`(?<!\\p{L})(?:edici[oó]|ed\\.)\\s+${TEXT_VALUE}`],
+      supplement: [`(?<!\\p{L})suplement\\s+${TEXT_VALUE}`],
+      issue: [`(?<!\\p{L})(?:n\\s?[°º]|n[uú]m\\.?|n[uú]mero)\\s*${ISSUE_VALUE}`]
+    },
+    formatEdition: edition => `Edició ${edition}`,
+    formatSupplement: supplement => `Suplement ${supplement}`,
+    formatIssue: issue => `Núm. ${issue}`
+  }
+};
+
+export const LOCALE_IDS = Object.keys(LOCALE_PACKS) as LocaleId[];
+
+export const DEFAULT_LOCALE_SETTINGS: LocaleSettings = {
+  parse: ['es', 'pt-BR', 'en', 'ca'],
+  output: 'es',
+  ranges: 'range'
+};
+
+export function isLocaleId(value: unknown): value is LocaleId {
+  return typeof value === 'string' && LOCALE_IDS.includes(value as LocaleId);
+}
+
+// Unknown ids are dropped; with nothing left, Spanish is used
+export function getLocalePacks(ids: LocaleId[]): LocalePack[] {
+  const packs = ids.filter(isLocaleId).map(id => LOCALE_PACKS[id]);
+  return packs.length > 0 ? packs : [LOCALE_PACKS.es];
+}
+
+export function getLocalePack(id: LocaleId): LocalePack {
+  return LOCALE_PACKS[id] || LOCALE_PACKS.es;
+}
+
+// "Março", "marco" and "MAR." are the same month
+function normalizeMonthName(name: string): string {
+  return name.toLowerCase().normalize('NFD').replace(/\p{M}/gu, '').replace(/\.$/, '');
+}
+
+const monthMaps = new Map<LocaleId, Map<string, number>>();
+
+function getMonthMap(pack: LocalePack): Map<string, number> {
+  let map = monthMaps.get(pack.id);
+  if (!map) {
+    const names = new Map<string, number>();
+    pack.months.forEach((name, index) => names.set(normalizeMonthName(name), index + 1));
+    Object.entries(pack.abbreviations).forEach(([month, abbreviations]) => {
+      abbreviations.forEach(abbreviation => names.set(normalizeMonthName(abbreviation), Number(month)));
+    });
+    map = names;
+    monthMaps.set(pack.id, map);
+  }
+  return map;
+}
+
+// Returns 0 when no pack knows the name
+export function parseMonthName(name: string, packs: LocalePack[]): number {
+  const normalized = normalizeMonthName(name);
+  for (const pack of packs) {
+    const month = getMonthMap(pack).get(normalized);
+    if (month) {
+      return month;
+    }
+  }
+  return 0;
+}
+
+interface PackGrammars {
+  dates: string[];
+  months: string[];
+}
+
+const grammarCache = new Map<LocaleId, PackGrammars>();
+
+function getGrammars(pack: LocalePack): PackGrammars {
+  let grammars = grammarCache.get(pack.id);
+  if (!grammars) {
+    const parts = buildGrammarParts(pack);
+    grammars = { dates: pack.grammars(parts), months: pack.monthGrammars(parts) };
+    grammarCache.set(pack.id, grammars);
+  }
+  return grammars;
+}
+
+function toDatePhrase(pack: LocalePack, groups: Record<string, string | undefined>): DatePhrase | null {
+  // A grammar only accepts the month names of its own language
+  const month = getMonthMap(pack).get(normalizeMonthName(groups.month || ''));
+  if (!month) {
+    return null;
+  }
+
+  const phrase: DatePhrase = { month, year: parseInt(groups.year || '', 10) };
+  if (groups.day) {
+    phrase.day = parseInt(groups.day, 10);
+  }
+  if (groups.endDay) {
+    phrase.endDay = parseInt(groups.endDay, 10);
+  }
+  if (groups.weekday) {
+    const weekday = pack.weekdays.map(stripAccents).indexOf(stripAccents(groups.weekday.toLowerCase()));
+    if (weekday >= 0) {
+      phrase.weekday = weekday;
+    }
+  }
+  return phrase;
+}
+
+// What may come before and after a month and year: the ends of the text or a separator such as " - ", "_", "(" or the extension dot
+const LEADING_BOUNDARY = /(?:^\s*|[-_–(\[,]\s*)$/u;
+const TRAILING_BOUNDARY = /^(?:\s*$|\s*[-_–)\],.])/u;
+
+// "Plaza Mayo 1990" or "Informe marzo 2020" are not dates; "Revista - marzo 2020" and "dic. 1989" are
+function isMonthPhraseToken(text: string, match: RegExpMatchArray): boolean {
+  if (match.groups?.month?.endsWith('.')) {
+    return true;
+  }
+  const start = match.index ?? 0;
+  return LEADING_BOUNDARY.test(text.slice(0, start)) && TRAILING_BOUNDARY.test(text.slice(start + match[0].length));
+}
+
+// Finds the first date phrase in the text; with anchored, the whole text must be one
+export function findDatePhrase(text: string, packs: LocalePack[], anchored: boolean = false): DatePhrase | null {
+  // A complete date anywhere in the text wins over a month and year
+  for (const kind of ['dates', 'months'] as const) {
+    for (const pack of packs) {
+      for (const grammar of getGrammars(pack)[kind]) {
+        const source = anchored ? `^(?:${grammar})$` : grammar;
+        for (const match of text.matchAll(new RegExp(source, 'giu'))) {
+          if (kind === 'months' && !anchored && !isMonthPhraseToken(text, match)) {
+            continue;
+          }
+          const phrase = toDatePhrase(pack, match.groups || {});
+          if (phrase) {
+            return phrase;
+          }
+        }
+      }
+    }
+  }
+  return null;
+}
+
+export interface DateCorrection {
+  // The whole text with the date fixed
+  text: string;
+  reason: string;
+}
+
+// Letters to insert, delete or change to turn one word into the other
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// A misspelt full month name such as "diciembr"; one edit is allowed in short words, two in longer ones
+function findClosestMonth(pack: LocalePack, word: string): number {
+  const normalized = normalizeMonthName(word);
+  if (normalized.length < 4) {
+    return 0;
+  }
+
+  const distances = pack.months.map(name => editDistance(normalized, normalizeMonthName(name)));
+  const best = Math.min(...distances);
+  const allowed = normalized.length <= 5 ? 1 : 2;
+  const unique = distances.filter(distance => distance === best).length === 1;
+  return best <= allowed && unique ? distances.indexOf(best) + 1 : 0;
+}
+
+// Replaces a standalone occurrence of value; the last one is the end of a range such as "25-31"
+function replaceToken(text: string, value: string, replacement: string, last: boolean = false): string {
+  const boundary = /^\d/.test(value) ? '\\d' : '\\p{L}';
+  const matches = Array.from(text.matchAll(new RegExp(`(?<!${boundary})${escapeRegex(value)}(?!${boundary})`, 'gu')));
+  const match = last ? matches[matches.length - 1] : matches[0];
+  if (!match || match.index === undefined) {
+    return text;
+  }
+  return `${text.slice(0, match.index)}${replacement}${text.slice(match.index + value.length)}`;
+}
+
+function correctMatch(pack: LocalePack, match: RegExpMatchArray): DateCorrection | null {
+  const groups = match.groups || {};
+  const year = parseInt(groups.year || '', 10);
+  const written = (groups.month || '').replace(/\.$/, '');
+  const reasons: string[] = [];
+  let phrase = match[0];
+
+  let month = getMonthMap(pack).get(normalizeMonthName(written));
+  if (!month) {
+    month = findClosestMonth(pack, written);
+    if (!month) {
+      return null;
+    }
+    const name = pack.months[month - 1];
+    const replacement = written.charAt(0) === written.charAt(0).toUpperCase() ? capitalize(name) : name;
+    phrase = replaceToken(phrase, written, replacement);
+    reasons.push(`"${written}" parece "${replacement}"`);
+  }
+
+  // Only a day just past the end of the month is a near miss, such as "31 de abril" or "29 de febrero de 1989"
+  const day = groups.day ? parseInt(groups.day, 10) : undefined;
+  const endDay = groups.endDay ? parseInt(groups.endDay, 10) : undefined;
+  const lastDay = getDaysInMonth(year, month);
+  const isNearMiss = (value: number | undefined): boolean => value !== undefined && value > lastDay && value <= 31;
+  if (isNearMiss(day) || isNearMiss(endDay)) {
+    reasons.push(`${capitalize(LOCALE_PACKS.es.months[month - 1])} de ${year} solo tiene ${lastDay} días`);
+  }
+  if (isNearMiss(day)) {
+    phrase = replaceToken(phrase, groups.day, String(lastDay));
+  }
+  if (isNearMiss(endDay)) {
+    phrase = replaceToken(phrase, groups.endDay, String(lastDay), true);
+  }
+  const corrected = {
+    day: isNearMiss(day) ? lastDay : day,
+    endDay: isNearMiss(endDay) ? lastDay : endDay,
+    month,
+    year
+  };
+
+  if (reasons.length === 0 || !isValidDate(corrected)) {
+    return null;
+  }
+  return { text: phrase, reason: reasons.join('; ') };
+}
+
+// Suggests a fix for a date that is almost right, for text where findDatePhrase finds no valid date.
+// Only complete dates are considered: a lone word before a year, as in "Plaza Mayor 1990", is too weak a hint
+export function findDateCorrection(text: string, packs: LocalePack[]): DateCorrection | null {
+  for (const pack of packs) {
+    for (const grammar of getGrammars(pack).dates) {
+      for (const match of text.matchAll(new RegExp(grammar, 'giu'))) {
+        const correction = correctMatch(pack, match);
+        if (correction) {
+          const start = match.index || 0;
+          return {
+            text: `${text.slice(0, start)}${correction.text}${text.slice(start + match[0].length)}`,
+            reason: correction.reason
+          };
+        }
+      }
+    }
+  }
+  return null;
+}
+
+// Every grammar of the packs as one expression without groups, to embed in a larger pattern
+export function getDatePhraseSource(packs: LocalePack[]): string {
+  return [...packs.flatMap(pack => getGrammars(pack).dates), ...packs.flatMap(pack => getGrammars(pack).months)]
+    .map(grammar => `(?:${grammar.replace(/\(\?<(?![=!])\w+>/g, '(?:')})`)
+    .join('|');
+}
+
+// Describes a named weekday that does not match the date, or returns null
+export function getWeekdayWarning(phrase: DatePhrase): string | null {
+  if (phrase.weekday === undefined || !phrase.day) {
+    return null;
+  }
+  const actual = new Date(Date.UTC(phrase.year, phrase.month - 1, phrase.day)).getUTCDay();
+  if (actual === phrase.weekday) {
+    return null;
+  }
+  const { months, weekdays } = LOCALE_PACKS.es;
+  return `El ${phrase.day} de ${months[phrase.month - 1]} de ${phrase.year} fue ${weekdays[actual]}, no ${weekdays[phrase.weekday]}`;
+}
+
+export function getMonthName(month: number, locale: LocaleId): string | undefined {
+  return getLocalePack(locale).months[month - 1];
+}
@@ -0,0 +1,73 @@
+// Edition, supplement and issue number of a newspaper, read from the file name and used as subfolders
+
+import { getLocalePack, LocaleId, LocalePack } from './locales';
+
+export type MetadataField = 'edition' | 'supplement' | 'issue';
+
+export const METADATA_FIELDS: MetadataField[] = ['edition', 'supplement', 'issue'];
+
+// Special editions and supplements stay apart from the regular issue of the same day
+export const DEFAULT_METADATA_FOLDERS: MetadataField[] = ['edition', 'supplement'];
+
+export interface IssueMetadata {
+  // "vespertina" in "Edición vespertina"
+  edition?: string;
+  // "Deportes" in "Suplemento Deportes"
+  supplement?: string;
+  // 14532 in "N° 14.532"
+  issue?: number;
+}
+
+export interface MetadataExtraction {
+  // The name without the markers, ready for the naming rules
+  name: string;
+  metadata: IssueMetadata;
+}
+
+export function parseIssueNumber(value: string): number | undefined {
+  const issue = parseInt(value.replace(/[.,]/g, ''), 10);
+  return Number.isFinite(issue) && issue > 0 ? issue : undefined;
+}
+
+// Takes out each marker together with the separator before it, so "Diario - Edición vespertina - 1 de enero" becomes "Diario - 1 de enero"
+export function extractIssueMetadata(name: string, packs: LocalePack[]): MetadataExtraction {
+  const metadata: IssueMetadata = {};
+  let rest = name;
+
+  for (const field of METADATA_FIELDS) {
+    const sources = packs.flatMap(pack => pack.markers[field]);
+    for (const source of sources) {
+      const match = new RegExp(`(?:\\s*[-_–]\\s*)?(?:${source})`, 'iu').exec(rest);
+      const value = match?.groups?.value?.trim();
+      if (!match || !value) {
+        continue;
+      }
+
+      if (field === 'issue') {
+        metadata.issue = parseIssueNumber(value);
+      } else {
+        metadata[field] = value;
+      }
+      rest = `${rest.slice(0, match.index)}${rest.slice(match.index + match[0].length)}`;
+      break;
+    }
+  }
+
+  return { name: rest.replace(/^[\s\-_–]+|[\s\-_–]+$/g, ''), metadata };
+}
+
+// Subfolders placed under the diary folder, in the order of the fields
+export function getMetadataFolders(metadata: IssueMetadata, fields: MetadataField[], locale: LocaleId): string[] {
+  const pack = getLocalePack(locale);
+  const folders: string[] = [];
+  METADATA_FIELDS.filter(field => fields.includes(field)).forEach(field => {
+    if (field === 'edition' && metadata.edition) {
+      folders.push(pack.formatEdition(metadata.edition));
+    } else if (field === 'supplement' && metadata.supplement) {
+      folders.push(pack.formatSupplement(metadata.supplement));
+    } else if (field === 'issue' && metadata.issue) {
+      folders.push(pack.formatIssue(metadata.issue));
+    }
+  });
+  return folders;
+}
@@ -0,0 +1,14 @@
+export type ArchivePhase = 'hashing' | 'testing' | 'extracting' | 'moving' | 'cleaning';
+
+// Progress inside a single archive; bytesTotal may be an estimate for external tools
+export interface ByteProgress {
+  bytesDone: number;
+  bytesTotal: number;
+  currentEntry?: string;
+}
+
+export interface ArchiveProgress extends ByteProgress {
+  phase: ArchivePhase;
+}
+
+export type ByteProgressCallback = (progress: ByteProgress) => void;
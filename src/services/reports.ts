@@ -0,0 +1,225 @@
+import * as fs from 'fs-extra';
+import { DatePreviewResult, FileNameSuggestion, formatFileDate, PreviewItem, PreviewResult, ProcessingResult, ResultOutcome } from './fileProcessor';
+
+export type ReportFormat = 'csv' | 'json' | 'html';
+
+// Preview reports are dry-run manifests; result reports record what a job did
+export type ReportKind = 'zip-preview' | 'zip-result' | 'date-preview' | 'date-result';
+
+// What the renderer got back from the preview or job the report is about
+export type ReportData = PreviewResult | DatePreviewResult | ProcessingResult;
+
+export interface ReportRow {
+  source: string;
+  diary: string;
+  date: string;
+  targetPath: string;
+  outcome: string;
+  // Error, or the warnings the preview found
+  error: string;
+}
+
+export interface Report {
+  title: string;
+  inputPath: string;
+  generatedAt: string;
+  rows: ReportRow[];
+}
+
+const COLUMNS: Array<{ key: keyof ReportRow; label: string }> = [
+  { key: 'source', label: 'Origen' },
+  { key: 'diary', label: 'Diario' },
+  { key: 'date', label: 'Fecha' },
+  { key: 'targetPath', label: 'Destino' },
+  { key: 'outcome', label: 'Resultado' },
+  { key: 'error', label: 'Error o aviso' }
+];
+
+const TITLES: Record<ReportKind, string> = {
+  'zip-preview': 'Previsualización de extracción',
+  'zip-result': 'Resultado de la extracción',
+  'date-preview': 'Previsualización de organización por fecha',
+  'date-result': 'Resultado de la organización por fecha'
+};
+
+const OUTCOME_LABELS: Record<ResultOutcome, string> = {
+  processed: 'Procesado',
+  'already-imported': 'Ya importado',
+  failed: 'Error',
+  'rolled-back': 'Revertido',
+  pending: 'Sin procesar'
+};
+
+function getPreviewNotes(item: PreviewItem): string {
+  const notes: string[] = [];
+  // The reason already names the problem when the archive is skipped
+  if (item.reason) {
+    notes.push(item.reason);
+  } else if (item.corrupt) {
+    notes.push('Dañado');
+  }
+  if (item.encrypted) {
+    notes.push('Protegido con contraseña');
+  }
+  if (item.missingVolumes && item.missingVolumes.length > 0) {
+    notes.push(`Faltan volúmenes: ${item.missingVolumes.join(', ')}`);
+  }
+  if (item.lastVolumeUnconfirmed) {
+    notes.push('Puede faltar el último volumen');
+  }
+  if (item.parsedInfo?.dateWarning) {
+    notes.push(item.parsedInfo.dateWarning);
+  }
+  if (item.parsedInfo?.publicationWarning) {
+    notes.push(`Fecha sospechosa: ${item.parsedInfo.publicationWarning}`);
+  }
+  if (item.alreadyImported) {
+    notes.push(`Ya importado → ${item.alreadyImported.destination}`);
+  }
+  if (item.conflicts && item.conflicts.length > 0) {
+    notes.push(`${item.conflicts.length} archivos ya existen en el destino`);
+  } else if (item.targetHasFiles) {
+    notes.push('La carpeta de destino ya tiene archivos');
+  }
+  return notes.join('; ');
+}
+
+// Files left out with a near-miss date, so the report lists every file that needs attention
+function getSuggestionRows(suggestions: FileNameSuggestion[] = []): ReportRow[] {
+  return suggestions.map(suggestion => ({
+    source: suggestion.fileName,
+    diary: '',
+    date: '',
+    targetPath: '',
+    outcome: 'Se omitirá',
+    error: `Fecha no válida: ${suggestion.reason}; nombre sugerido: ${suggestion.suggestedName}`
+  }));
+}
+
+function getZipPreviewRows(preview: PreviewResult): ReportRow[] {
+  const rows = preview.items.map(item => ({
+    source: item.fileName,
+    diary: item.parsedInfo?.diary || '',
+    date: item.parsedInfo ? formatFileDate(item.parsedInfo.year, item.parsedInfo.month, item.parsedInfo.day) : '',
+    targetPath: item.targetPath || '',
+    outcome: item.willProcess ? 'Se procesará' : 'Se omitirá',
+    error: getPreviewNotes(item)
+  }));
+  return [...rows, ...getSuggestionRows(preview.suggestions)];
+}
+
+function getDatePreviewRows(preview: DatePreviewResult): ReportRow[] {
+  const rows = preview.items.map(item => ({
+    source: item.fileName,
+    diary: '',
+    date: item.targetPathLabel,
+    targetPath: item.targetPath,
+    outcome: 'Se organizará',
+    error: [item.warning, item.conflict ? 'Ya existe un archivo con el mismo nombre en el destino' : '']
+      .filter(Boolean)
+      .join('; ')
+  }));
+  return [...rows, ...getSuggestionRows(preview.suggestions)];
+}
+
+function getResultRows(result: ProcessingResult): ReportRow[] {
+  const rows: ReportRow[] = (result.items || []).map(item => ({
+    source: item.fileName,
+    diary: item.diary || '',
+    date: item.date || '',
+    targetPath: item.targetPath || '',
+    outcome: OUTCOME_LABELS[item.outcome] || item.outcome,
+    error: item.error || ''
+  }));
+  // A job that failed before reaching any file still leaves a record of why
+  if (rows.length === 0 && result.error) {
+    rows.push({ source: '', diary: '', date: '', targetPath: '', outcome: OUTCOME_LABELS.failed, error: result.error });
+  }
+  return rows;
+}
+
+export function buildReport(kind: ReportKind, data: ReportData, inputPath: string): Report {
+  let rows: ReportRow[];
+  if (kind === 'zip-preview') {
+    rows = getZipPreviewRows(data as PreviewResult);
+  } else if (kind === 'date-preview') {
+    rows = getDatePreviewRows(data as DatePreviewResult);
+  } else {
+    rows = getResultRows(data as ProcessingResult);
+  }
+  return { title: TITLES[kind], inputPath, generatedAt: new Date().toISOString(), rows };
+}
+
+function toCsvField(value: string): string {
+  // A leading quote keeps spreadsheet apps from running names like "=HYPERLINK(...)" as formulas
+  const text = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return `"${text.replace(/"/g, '""')}"`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function renderHtml(report: Report): string {
+  const counts = new Map<string, number>();
+  report.rows.forEach(row => counts.set(row.outcome, (counts.get(row.outcome) || 0) + 1));
+  const summary = Array.from(counts.entries()).map(([outcome, count]) => `${escapeHtml(outcome)}: ${count}`).join(' · ');
+  const header = COLUMNS.map(column => `<th>${column.label}</th>`).join('');
+  const body = report.rows
+    .map(row => `<tr>${COLUMNS.map(column => `<td>${escapeHtml(row[column.key])}</td>`).join('')}</tr>`)
+    .join('\n');
+
+  // Standalone on purpose: styles are inline so the file can be mailed or archived on its own
+  return `<!DOCTYPE html>
+<html lang="es">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(report.title)}</title>
+<style>
+body { font-family: -apple-system, "Segoe UI", Roboto, sans-serif; margin: 2rem; color: #111827; }
+h1 { font-size: 1.25rem; margin-bottom: 0.25rem; }
+p { color: #4b5563; font-size: 0.875rem; margin: 0.25rem 0; }
+table { border-collapse: collapse; width: 100%; margin-top: 1rem; font-size: 0.8125rem; }
+th, td { border: 1px solid #e5e7eb; padding: 0.375rem 0.5rem; text-align: left; vertical-align: top; }
+th { background: #f3f4f6; }
+tr:nth-child(even) td { background: #f9fafb; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(report.title)}</h1>
+<p>Carpeta de entrada: ${escapeHtml(report.inputPath)}</p>
+<p>Generado: ${new Date(report.generatedAt).toLocaleString('es-ES')}</p>
+<p>${report.rows.length} archivos${summary ? ` · ${summary}` : ''}</p>
+<table>
+<thead><tr>${header}</tr></thead>
+<tbody>
+${body}
+</tbody>
+</table>
+</body>
+</html>
+`;
+}
+
+export function renderReport(report: Report, format: ReportFormat): string {
+  if (format === 'json') {
+    return `${JSON.stringify(report, null, 2)}\n`;
+  }
+  if (format === 'html') {
+    return renderHtml(report);
+  }
+  const lines = [
+    COLUMNS.map(column => toCsvField(column.label)).join(','),
+    ...report.rows.map(row => COLUMNS.map(column => toCsvField(row[column.key])).join(','))
+  ];
+  // The byte order mark lets spreadsheet apps read the accents correctly
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+}
+
+export async function writeReport(filePath: string, report: Report, format: ReportFormat): Promise<void> {
+  await fs.writeFile(filePath, renderReport(report, format), 'utf8');
+}
@@ -0,0 +1,336 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { once } from 'events';
+import { finished } from 'stream/promises';
+import { Readable } from 'stream';
+import { CorruptArchiveError, UnsafeArchiveError } from './archiveErrors';
+import { resolveEntryPath } from './archiveSafety';
+import { ByteProgressCallback } from './progress';
+
+const BLOCK_SIZE = 512;
+
+const TYPE_FILE = '0';
+const TYPE_FILE_LEGACY = '\0';
+const TYPE_CONTIGUOUS_FILE = '7';
+const TYPE_HARD_LINK = '1';
+const TYPE_SYMLINK = '2';
+const TYPE_DIRECTORY = '5';
+const TYPE_PAX_HEADER = 'x';
+const TYPE_PAX_GLOBAL_HEADER = 'g';
+const TYPE_GNU_LONG_NAME = 'L';
+
+export interface TarExtractOptions {
+  gzip: boolean;
+  // Walk and validate the whole archive without writing anything
+  dryRun?: boolean;
+  // Measured on the (possibly compressed) input file, since gzip hides the real total
+  onProgress?: ByteProgressCallback;
+}
+
+interface TarHeader {
+  name: string;
+  size: number;
+  mtime: number;
+  type: string;
+}
+
+interface TarState {
+  header: TarHeader | null;
+  remaining: number;
+  padding: number;
+  target: fs.WriteStream | null;
+  targetPath?: string;
+  metadata: Buffer[] | null;
+  overrideName?: string;
+  entryName?: string;
+}
+
+function readString(block: Buffer, offset: number, length: number): string {
+  const field = block.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? field.length : end).toString('utf8');
+}
+
+// Numeric fields are octal text, or big-endian base-256 when the high bit is set (GNU extension)
+function readNumber(block: Buffer, offset: number, length: number): number {
+  const field = block.subarray(offset, offset + length);
+
+  if (field[0] & 0x80) {
+    let value = field[0] & 0x7f;
+    for (let i = 1; i < field.length; i++) {
+      value = value * 256 + field[i];
+    }
+    return value;
+  }
+
+  const text = field.toString('ascii').replace(/[\0 ]+/g, ' ').trim();
+  return text ? parseInt(text, 8) : 0;
+}
+
+function isChecksumValid(block: Buffer): boolean {
+  const expected = readNumber(block, 148, 8);
+  let sum = 0;
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    // The checksum field itself counts as eight spaces
+    sum += i >= 148 && i < 156 ? 0x20 : block[i];
+  }
+  return sum === expected;
+}
+
+function parseHeader(block: Buffer): TarHeader {
+  if (!isChecksumValid(block)) {
+    throw new CorruptArchiveError('cabecera TAR con suma de verificación incorrecta');
+  }
+
+  let name = readString(block, 0, 100);
+  const magic = readString(block, 257, 6);
+  if (magic.startsWith('ustar')) {
+    const prefix = readString(block, 345, 155);
+    if (prefix) {
+      name = `${prefix}/${name}`;
+    }
+  }
+
+  return {
+    name,
+    size: readNumber(block, 124, 12),
+    mtime: readNumber(block, 136, 12),
+    type: String.fromCharCode(block[156])
+  };
+}
+
+function parsePaxPath(data: Buffer): string | undefined {
+  // Records look like "<length> <key>=<value>\n"
+  let cursor = 0;
+  while (cursor < data.length) {
+    const space = data.indexOf(0x20, cursor);
+    if (space === -1) {
+      break;
+    }
+    const length = parseInt(data.subarray(cursor, space).toString('ascii'), 10);
+    if (!length) {
+      break;
+    }
+    const record = data.subarray(space + 1, cursor + length - 1).toString('utf8');
+    const separator = record.indexOf('=');
+    if (separator !== -1 && record.slice(0, separator) === 'path') {
+      return record.slice(separator + 1);
+    }
+    cursor += length;
+  }
+  return undefined;
+}
+
+function openInput(filePath: string, gzip: boolean, onRead?: (length: number) => void): Readable {
+  const source = fs.createReadStream(filePath);
+  if (onRead) {
+    source.on('data', chunk => onRead(chunk.length));
+  }
+  if (!gzip) {
+    return source;
+  }
+
+  const gunzip = zlib.createGunzip();
+  source.on('error', error => gunzip.destroy(error));
+  return source.pipe(gunzip);
+}
+
+export async function extractTarArchive(filePath: string, outputDir: string, options: TarExtractOptions): Promise<void> {
+  const bytesTotal = options.onProgress ? (await fs.stat(filePath)).size : 0;
+  let bytesDone = 0;
+
+  let pending: Buffer = Buffer.alloc(0);
+  let ended = false;
+  const state: TarState = {
+    header: null,
+    remaining: 0,
+    padding: 0,
+    target: null,
+    metadata: null
+  };
+
+  const onProgress = options.onProgress;
+  const input = openInput(filePath, options.gzip, onProgress && (length => {
+    bytesDone += length;
+    onProgress({ bytesDone, bytesTotal, currentEntry: state.entryName });
+  }));
+
+  const closeTarget = async (mtime?: number): Promise<void> => {
+    if (state.target) {
+      const stream = state.target;
+      state.target = null;
+      stream.end();
+      await finished(stream);
+      // Header mtime is in seconds, which utimes accepts directly
+      if (mtime && state.targetPath) {
+        await fs.utimes(state.targetPath, mtime, mtime);
+      }
+    }
+  };
+
+  const startEntry = async (entry: TarHeader): Promise<void> => {
+    const entryName = (state.overrideName ?? entry.name).replace(/\\/g, '/');
+    const isMetadata = entry.type === TYPE_PAX_HEADER || entry.type === TYPE_PAX_GLOBAL_HEADER || entry.type === TYPE_GNU_LONG_NAME;
+
+    state.header = entry;
+    state.remaining = entry.size;
+    state.padding = (BLOCK_SIZE - (entry.size % BLOCK_SIZE)) % BLOCK_SIZE;
+    state.metadata = isMetadata ? [] : null;
+
+    if (isMetadata) {
+      return;
+    }
+
+    state.overrideName = undefined;
+    state.entryName = entryName;
+    if (entry.type === TYPE_HARD_LINK || entry.type === TYPE_SYMLINK) {
+      throw new UnsafeArchiveError(entryName, 'es un enlace');
+    }
+
+    const targetPath = resolveEntryPath(outputDir, entryName);
+
+    if (options.dryRun) {
+      return;
+    }
+
+    if (entry.type === TYPE_DIRECTORY) {
+      await fs.ensureDir(targetPath);
+    } else if (entry.type === TYPE_FILE || entry.type === TYPE_FILE_LEGACY || entry.type === TYPE_CONTIGUOUS_FILE) {
+      await fs.ensureDir(path.dirname(targetPath));
+      state.target = fs.createWriteStream(targetPath);
+      state.targetPath = targetPath;
+    } else {
+      // Devices and FIFOs are skipped; only regular content is organized
+      console.warn(`Skipping unsupported tar entry type '${entry.type}': ${entryName}`);
+    }
+  };
+
+  const finishEntry = async (): Promise<void> => {
+    const entry = state.header;
+    state.header = null;
+
+    if (state.metadata && entry) {
+      const data = Buffer.concat(state.metadata);
+      state.metadata = null;
+      if (entry.type === TYPE_GNU_LONG_NAME) {
+        state.overrideName = readString(data, 0, data.length);
+      } else if (entry.type === TYPE_PAX_HEADER) {
+        state.overrideName = parsePaxPath(data) ?? state.overrideName;
+      }
+      return;
+    }
+
+    await closeTarget(entry?.mtime);
+  };
+
+  try {
+    for await (const chunk of input) {
+      pending = pending.length > 0 ? Buffer.concat([pending, chunk as Buffer]) : chunk as Buffer;
+
+      while (!ended) {
+        if (state.header && state.remaining > 0) {
+          if (pending.length === 0) {
+            break;
+          }
+          const slice = pending.subarray(0, Math.min(state.remaining, pending.length));
+          pending = pending.subarray(slice.length);
+          state.remaining -= slice.length;
+
+          if (state.metadata) {
+            state.metadata.push(Buffer.from(slice));
+          } else if (state.target && !state.target.write(slice)) {
+            await once(state.target, 'drain');
+          }
+          continue;
+        }
+
+        if (state.header) {
+          if (pending.length < state.padding) {
+            break;
+          }
+          pending = pending.subarray(state.padding);
+          state.padding = 0;
+          await finishEntry();
+          continue;
+        }
+
+        if (pending.length < BLOCK_SIZE) {
+          break;
+        }
+
+        const block = pending.subarray(0, BLOCK_SIZE);
+        pending = pending.subarray(BLOCK_SIZE);
+
+        // Two zero blocks mark the end of the archive; one is enough to stop
+        if (block.every(byte => byte === 0)) {
+          ended = true;
+          break;
+        }
+
+        await startEntry(parseHeader(block));
+      }
+
+      if (ended) {
+        break;
+      }
+    }
+
+    if (state.header) {
+      throw new CorruptArchiveError('el archivo TAR está incompleto');
+    }
+  } catch (error) {
+    // zlib reports truncated or damaged gzip streams with Z_* codes
+    if ((error as NodeJS.ErrnoException).code?.startsWith('Z_')) {
+      throw new CorruptArchiveError(`flujo gzip inválido (${(error as Error).message})`);
+    }
+    throw error;
+  } finally {
+    await closeTarget();
+    input.destroy();
+  }
+}
+
+export async function testTarArchive(filePath: string, options: TarExtractOptions): Promise<void> {
+  // Entry names are still resolved against a root so unsafe ones are reported here too
+  await extractTarArchive(filePath, '.', { ...options, dryRun: true });
+}
+
+// Lists entry names of an uncompressed tar by jumping from header to header, without reading the data
+export async function listTarEntries(filePath: string): Promise<string[]> {
+  const handle = await fs.promises.open(filePath, 'r');
+  const names: string[] = [];
+  const block = Buffer.alloc(BLOCK_SIZE);
+  let position = 0;
+  let overrideName: string | undefined;
+
+  try {
+    while (true) {
+      const { bytesRead } = await handle.read(block, 0, BLOCK_SIZE, position);
+      if (bytesRead < BLOCK_SIZE || block.every(byte => byte === 0)) {
+        break;
+      }
+
+      const header = parseHeader(block);
+      const dataBlocks = Math.ceil(header.size / BLOCK_SIZE);
+      position += BLOCK_SIZE;
+
+      if (header.type === TYPE_GNU_LONG_NAME || header.type === TYPE_PAX_HEADER) {
+        const data = Buffer.alloc(header.size);
+        await handle.read(data, 0, header.size, position);
+        overrideName = header.type === TYPE_GNU_LONG_NAME
+          ? readString(data, 0, data.length)
+          : parsePaxPath(data) ?? overrideName;
+      } else if (header.type !== TYPE_PAX_GLOBAL_HEADER) {
+        names.push(overrideName ?? header.name);
+        overrideName = undefined;
+      }
+
+      position += dataBlocks * BLOCK_SIZE;
+    }
+  } finally {
+    await handle.close();
+  }
+
+  return names;
+}
@@ -0,0 +1,62 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+
+// off: move contents as extracted; single: drop one lone wrapper folder; recursive: keep dropping while there is one
+export type UnwrapMode = 'off' | 'single' | 'recursive';
+
+export interface UnwrapPlan {
+  // Wrapper folders that will be skipped, outermost first
+  unwrapped: string[];
+  // Names that will end up directly in the destination folder
+  topLevel: string[];
+}
+
+function getTopLevelNames(paths: string[][]): string[] {
+  return Array.from(new Set(paths.map(segments => segments[0])));
+}
+
+// Works on entry names from the archive headers, so the preview can show the result without extracting
+export function planUnwrap(entryNames: string[], mode: UnwrapMode): UnwrapPlan {
+  let paths = entryNames
+    .map(name => name.replace(/\\/g, '/').split('/').filter(Boolean))
+    .filter(segments => segments.length > 0);
+  const unwrapped: string[] = [];
+
+  while (mode !== 'off' && (mode === 'recursive' || unwrapped.length === 0)) {
+    const topLevel = getTopLevelNames(paths);
+    // A lone name only counts as a folder when something lives inside it
+    const isLoneFolder = topLevel.length === 1 && paths.some(segments => segments.length > 1);
+    if (!isLoneFolder) {
+      break;
+    }
+
+    unwrapped.push(topLevel[0]);
+    paths = paths.map(segments => segments.slice(1)).filter(segments => segments.length > 0);
+  }
+
+  return { unwrapped, topLevel: getTopLevelNames(paths) };
+}
+
+// Returns the directory whose contents should be moved, descending through lone wrapper folders
+export async function findContentRoot(rootDir: string, mode: UnwrapMode): Promise<string> {
+  let contentRoot = rootDir;
+  let depth = 0;
+
+  while (mode !== 'off' && (mode === 'recursive' || depth === 0)) {
+    const entries = await fs.readdir(contentRoot);
+    if (entries.length !== 1) {
+      break;
+    }
+
+    const candidate = path.join(contentRoot, entries[0]);
+    if (!(await fs.stat(candidate)).isDirectory() || (await fs.readdir(candidate)).length === 0) {
+      break;
+    }
+
+    console.log(`Unwrapping single top-level folder: ${entries[0]}`);
+    contentRoot = candidate;
+    depth++;
+  }
+
+  return contentRoot;
+}
@@ -0,0 +1,234 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { readZipDiskNumber } from './zipExtractor';
+
+export type VolumeScheme = 'rar-part' | 'rar-legacy' | 'split' | 'zip-split';
+
+interface VolumeMatch {
+  scheme: VolumeScheme;
+  baseName: string;
+  // 1-based position in the set; the .rar/.zip "head" of legacy schemes is resolved separately
+  index: number;
+  digits: number;
+}
+
+export interface VolumeSet {
+  // Name used to parse the diary/date, without any volume or archive suffix
+  baseName: string;
+  // Volume that must be handed to the extractor
+  entryPath: string;
+  volumes: string[];
+  missing: string[];
+  scheme: VolumeScheme;
+  digits: number;
+  // Set when nothing in the archive confirms that the last volume present is the last one of the set
+  unconfirmedEnd?: boolean;
+}
+
+export interface ArchiveGroups {
+  sets: VolumeSet[];
+  singles: string[];
+}
+
+const RAR_PART_PATTERN = /^(.*)\.part(\d+)\.rar$/i;
+const RAR_LEGACY_PATTERN = /^(.*)\.r(\d{2,3})$/i;
+// Raw splits (.001, .002, ...) only count when what was split is itself an archive
+const SPLIT_PATTERN = /^(.*\.(?:zip|rar|7z|tar|gz|tgz|bz2|cbz|cbr))\.(\d{3})$/i;
+const ZIP_SPLIT_PATTERN = /^(.*)\.z(\d{2,3})$/i;
+
+function matchVolume(fileName: string): VolumeMatch | null {
+  let match = RAR_PART_PATTERN.exec(fileName);
+  if (match) {
+    return { scheme: 'rar-part', baseName: match[1], index: parseInt(match[2], 10), digits: match[2].length };
+  }
+
+  // Legacy RAR numbering starts at .r00 for the second volume (the first one is .rar)
+  match = RAR_LEGACY_PATTERN.exec(fileName);
+  if (match) {
+    return { scheme: 'rar-legacy', baseName: match[1], index: parseInt(match[2], 10) + 2, digits: match[2].length };
+  }
+
+  match = SPLIT_PATTERN.exec(fileName);
+  if (match) {
+    return { scheme: 'split', baseName: match[1], index: parseInt(match[2], 10), digits: 3 };
+  }
+
+  // Spanned ZIPs: .z01, .z02, ... and the .zip holding the central directory comes last
+  match = ZIP_SPLIT_PATTERN.exec(fileName);
+  if (match) {
+    return { scheme: 'zip-split', baseName: match[1], index: parseInt(match[2], 10), digits: match[2].length };
+  }
+
+  return null;
+}
+
+function volumeName(scheme: VolumeScheme, baseName: string, index: number, digits: number): string {
+  const number = (value: number) => value.toString().padStart(digits, '0');
+  switch (scheme) {
+    case 'rar-part':
+      return `${baseName}.part${number(index)}.rar`;
+    case 'rar-legacy':
+      return index === 1 ? `${baseName}.rar` : `${baseName}.r${number(index - 2)}`;
+    case 'split':
+      return `${baseName}.${number(index)}`;
+    case 'zip-split':
+      return `${baseName}.z${number(index)}`;
+  }
+}
+
+function stripArchiveExtension(fileName: string): string {
+  return fileName.replace(/(\.tar)?\.[a-z0-9]+$/i, '');
+}
+
+// Groups the volumes of each multi-volume set; everything else is returned untouched as a single
+export function groupVolumes(filePaths: string[]): ArchiveGroups {
+  const groups = new Map<string, { scheme: VolumeScheme; baseName: string; dir: string; digits: number; volumes: Map<number, string> }>();
+  const candidates: string[] = [];
+
+  for (const filePath of filePaths) {
+    const fileName = path.basename(filePath);
+    const match = matchVolume(fileName);
+
+    if (!match) {
+      candidates.push(filePath);
+      continue;
+    }
+
+    const key = `${match.scheme}|${path.join(path.dirname(filePath), match.baseName).toLowerCase()}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = { scheme: match.scheme, baseName: match.baseName, dir: path.dirname(filePath), digits: match.digits, volumes: new Map() };
+      groups.set(key, group);
+    }
+    group.volumes.set(match.index, filePath);
+  }
+
+  // A plain .rar/.zip becomes part of a set when sibling .rNN/.zNN volumes exist
+  const singles: string[] = [];
+  for (const filePath of candidates) {
+    const fileName = path.basename(filePath);
+    const extension = path.extname(fileName).toLowerCase();
+    const baseKey = path.join(path.dirname(filePath), path.basename(fileName, path.extname(fileName))).toLowerCase();
+
+    if (extension === '.rar' && groups.has(`rar-legacy|${baseKey}`)) {
+      groups.get(`rar-legacy|${baseKey}`)!.volumes.set(1, filePath);
+    } else if (extension === '.zip' && groups.has(`zip-split|${baseKey}`)) {
+      const group = groups.get(`zip-split|${baseKey}`)!;
+      group.volumes.set(Math.max(0, ...group.volumes.keys()) + 1, filePath);
+    } else {
+      singles.push(filePath);
+    }
+  }
+
+  const sets: VolumeSet[] = [];
+  for (const group of groups.values()) {
+    const indexes = Array.from(group.volumes.keys()).sort((a, b) => a - b);
+    const lastIndex = indexes[indexes.length - 1];
+    const missing: string[] = [];
+
+    for (let index = 1; index <= lastIndex; index++) {
+      if (!group.volumes.has(index)) {
+        missing.push(volumeName(group.scheme, group.baseName, index, group.digits));
+      }
+    }
+
+    let entryPath = group.volumes.get(1) || path.join(group.dir, volumeName(group.scheme, group.baseName, 1, group.digits));
+    if (group.scheme === 'zip-split') {
+      const zipName = `${group.baseName}.zip`;
+      const zipVolume = Array.from(group.volumes.values()).find(volume => path.basename(volume).toLowerCase() === zipName.toLowerCase());
+      entryPath = zipVolume || path.join(group.dir, zipName);
+      if (!zipVolume) {
+        missing.push(zipName);
+      }
+    }
+
+    sets.push({
+      baseName: group.scheme === 'split' ? stripArchiveExtension(group.baseName) : group.baseName,
+      entryPath,
+      volumes: indexes.map(index => group.volumes.get(index)!),
+      missing,
+      scheme: group.scheme,
+      digits: group.digits
+    });
+  }
+
+  return { sets, singles };
+}
+
+const RAR4_SIGNATURE = Buffer.from('Rar!\x1a\x07\x00', 'latin1');
+const RAR5_SIGNATURE = Buffer.from('Rar!\x1a\x07\x01\x00', 'latin1');
+// The end-of-archive block is the last thing in a volume and never longer than this
+const RAR_END_BLOCK_MAX_SIZE = 32;
+
+async function readBytes(filePath: string, position: number, length: number): Promise<Buffer> {
+  const handle = await fs.promises.open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await handle.read(buffer, 0, length, position);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+}
+
+// Reads the end-of-archive block of a RAR volume: true when another volume follows, null when it cannot be read
+export async function rarHasNextVolume(filePath: string): Promise<boolean | null> {
+  const { size } = await fs.stat(filePath);
+  const signature = await readBytes(filePath, 0, RAR5_SIGNATURE.length);
+  const tail = await readBytes(filePath, Math.max(0, size - RAR_END_BLOCK_MAX_SIZE), Math.min(size, RAR_END_BLOCK_MAX_SIZE));
+
+  if (signature.equals(RAR5_SIGNATURE)) {
+    // CRC32, header size 3, type 5, header flags, end flags; bit 0 of the end flags means "not the last volume"
+    const start = tail.length - 8;
+    if (start >= 0 && tail[start + 4] === 3 && tail[start + 5] === 5) {
+      return (tail[start + 7] & 0x01) !== 0;
+    }
+    return null;
+  }
+
+  if (signature.subarray(0, RAR4_SIGNATURE.length).equals(RAR4_SIGNATURE)) {
+    // CRC16, type 0x7b, flags, block size; the block runs to the end of the file and flag 0x0001 means another volume follows
+    for (let i = tail.length - 7; i >= 0; i--) {
+      if (tail[i + 2] === 0x7b && tail.readUInt16LE(i + 5) === tail.length - i) {
+        return (tail.readUInt16LE(i + 3) & 0x0001) !== 0;
+      }
+    }
+  }
+  return null;
+}
+
+// groupVolumes only sees the volumes present, so a missing last one needs the archive (or the volume sizes) to show up
+export async function checkVolumeSetEnd(set: VolumeSet): Promise<VolumeSet> {
+  const missing = [...set.missing];
+  const present = new Set(set.volumes.map(volume => path.basename(volume).toLowerCase()));
+  const lastVolume = set.volumes[set.volumes.length - 1];
+  let unconfirmedEnd = false;
+
+  try {
+    if (set.scheme === 'zip-split') {
+      // Without the .zip it is already reported missing; with it, its disk number is the count of .zNN volumes
+      const disk = await fs.pathExists(set.entryPath) ? await readZipDiskNumber(set.entryPath) : null;
+      for (let index = 1; disk !== null && index <= disk; index++) {
+        const name = volumeName(set.scheme, set.baseName, index, set.digits);
+        if (!present.has(name.toLowerCase()) && !missing.includes(name)) {
+          missing.push(name);
+        }
+      }
+    } else {
+      const match = matchVolume(path.basename(lastVolume));
+      const hasNext = set.scheme === 'split' ? null : await rarHasNextVolume(lastVolume);
+      if (hasNext && match) {
+        missing.push(volumeName(set.scheme, match.baseName, match.index + 1, set.digits));
+      } else if (hasNext === null) {
+        // Every volume but the last has the same size, so a last one as large as the first may not be the end
+        const sizes = await Promise.all([set.volumes[0], lastVolume].map(async volume => (await fs.stat(volume)).size));
+        unconfirmedEnd = set.volumes.length === 1 || sizes[0] === sizes[1];
+      }
+    }
+  } catch (error) {
+    console.warn(`Could not check the last volume of ${set.entryPath}:`, error);
+    unconfirmedEnd = true;
+  }
+
+  return { ...set, missing, unconfirmedEnd: unconfirmedEnd || undefined };
+}
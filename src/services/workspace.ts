@@ -0,0 +1,152 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+
+const MANIFEST_FILE = 'workspace.json';
+const JOB_DIR_PREFIX = 'job-';
+export const LEGACY_WORKSPACE_ID = 'legacy-temp';
+
+// Written next to the extracted files so an interrupted job can be recognised after a crash
+interface WorkspaceManifest {
+  pid: number;
+  startedAt: string;
+  inputPath: string;
+  archives: string[];
+  completed: string[];
+}
+
+export interface JobWorkspace {
+  dir: string;
+  markCompleted: (fileName: string) => Promise<void>;
+  dispose: () => Promise<void>;
+}
+
+export interface OrphanedWorkspace {
+  id: string;
+  path: string;
+  size: number;
+  startedAt?: string;
+  inputPath?: string;
+  // Archives of the interrupted job that never finished
+  pending: string[];
+  // Left by older versions in Dropbox/Archivos/temp; there is no manifest, so it can only be cleaned
+  legacy?: boolean;
+}
+
+// Workspaces of jobs running in this process, never reported as orphaned
+const activeWorkspaces = new Set<string>();
+
+export function getDefaultWorkspaceRoot(): string {
+  return path.join(os.tmpdir(), 'archidrop-workspace');
+}
+
+export async function createJobWorkspace(root: string, inputPath: string, archives: string[]): Promise<JobWorkspace> {
+  const dir = path.join(root, `${JOB_DIR_PREFIX}${Date.now()}-${process.pid}`);
+  const manifest: WorkspaceManifest = {
+    pid: process.pid,
+    startedAt: new Date().toISOString(),
+    inputPath,
+    archives,
+    completed: []
+  };
+  const manifestPath = path.join(dir, MANIFEST_FILE);
+
+  await fs.ensureDir(dir);
+  await fs.writeJson(manifestPath, manifest, { spaces: 2 });
+  activeWorkspaces.add(dir);
+
+  let writing: Promise<void> = Promise.resolve();
+
+  return {
+    dir,
+    markCompleted: fileName => {
+      manifest.completed.push(fileName);
+      writing = writing
+        .then(() => fs.writeJson(manifestPath, manifest, { spaces: 2 }))
+        .catch(error => console.warn(`Could not update workspace manifest: ${manifestPath}`, error));
+      return writing;
+    },
+    dispose: async () => {
+      await writing;
+      try {
+        await fs.remove(dir);
+      } catch (error) {
+        // Left for the next startup, which reports it as orphaned
+        console.warn(`Could not remove workspace ${dir}:`, error);
+      }
+      activeWorkspaces.delete(dir);
+    }
+  };
+}
+
+async function getDirectorySize(dirPath: string): Promise<number> {
+  let size = 0;
+  for (const item of await fs.readdir(dirPath)) {
+    const stat = await fs.stat(path.join(dirPath, item));
+    size += stat.isDirectory() ? await getDirectorySize(path.join(dirPath, item)) : stat.size;
+  }
+  return size;
+}
+
+export function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+export async function findOrphanedWorkspaces(root: string, legacyDir?: string): Promise<OrphanedWorkspace[]> {
+  const orphans: OrphanedWorkspace[] = [];
+
+  if (await fs.pathExists(root)) {
+    for (const entry of await fs.readdir(root)) {
+      const dir = path.join(root, entry);
+      if (!entry.startsWith(JOB_DIR_PREFIX) || activeWorkspaces.has(dir) || !(await fs.stat(dir)).isDirectory()) {
+        continue;
+      }
+
+      let manifest: WorkspaceManifest | null = null;
+      try {
+        manifest = await fs.readJson(path.join(dir, MANIFEST_FILE)) as WorkspaceManifest;
+      } catch (error) {
+        console.warn(`Workspace without a readable manifest: ${dir}`);
+      }
+
+      // Another running instance of the app still owns it
+      if (manifest && manifest.pid !== process.pid && isProcessAlive(manifest.pid)) {
+        continue;
+      }
+
+      orphans.push({
+        id: entry,
+        path: dir,
+        size: await getDirectorySize(dir),
+        startedAt: manifest?.startedAt,
+        inputPath: manifest?.inputPath,
+        pending: manifest ? manifest.archives.filter(fileName => !manifest?.completed.includes(fileName)) : []
+      });
+    }
+  }
+
+  if (legacyDir && await fs.pathExists(legacyDir)) {
+    const leftovers = await fs.readdir(legacyDir);
+    if (leftovers.length > 0) {
+      orphans.push({
+        id: LEGACY_WORKSPACE_ID,
+        path: legacyDir,
+        size: await getDirectorySize(legacyDir),
+        pending: leftovers,
+        legacy: true
+      });
+    }
+  }
+
+  return orphans;
+}
+
+export async function removeOrphanedWorkspace(orphan: OrphanedWorkspace): Promise<void> {
+  console.log(`Removing orphaned workspace: ${orphan.path}`);
+  await fs.remove(orphan.path);
+}
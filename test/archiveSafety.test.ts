@@ -0,0 +1,38 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { describe, expect, it } from 'vitest';
+import { UnsafeArchiveError } from '../src/services/archiveErrors';
+import { getSafeEntrySegments, resolveEntryPath, validateEntryNames, verifyExtractedTree } from '../src/services/archiveSafety';
+import { makeTempDir } from './helpers/tempDir';
+
+describe('archive entry names', () => {
+  it('splits safe names into segments', () => {
+    expect(getSafeEntrySegments('pages\\01/./scan.jpg')).toEqual(['pages', '01', 'scan.jpg']);
+  });
+
+  it.each([
+    ['../evil.txt'],
+    ['pages/../../evil.txt'],
+    ['/etc/passwd'],
+    ['C:\\Windows\\evil.txt'],
+    ['bad\0name']
+  ])('rejects %j', entryName => {
+    expect(() => getSafeEntrySegments(entryName)).toThrow(UnsafeArchiveError);
+    expect(() => validateEntryNames(['ok.txt', entryName])).toThrow(UnsafeArchiveError);
+  });
+
+  it('resolves names inside the root only', () => {
+    const root = path.resolve('/tmp/root');
+    expect(resolveEntryPath(root, 'a/b.txt')).toBe(path.join(root, 'a', 'b.txt'));
+    expect(() => resolveEntryPath(root, 'a/../../b.txt')).toThrow(UnsafeArchiveError);
+  });
+
+  it('finds symbolic links left in an extracted tree', async () => {
+    const dir = await makeTempDir();
+    await fs.outputFile(path.join(dir, 'pages', 'scan.jpg'), 'x');
+    await verifyExtractedTree(dir);
+
+    await fs.symlink('/etc', path.join(dir, 'pages', 'link'));
+    await expect(verifyExtractedTree(dir)).rejects.toThrow(UnsafeArchiveError);
+  });
+});
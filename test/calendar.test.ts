@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest';
+import { getDaysInMonth, isValidDate } from '../src/services/calendar';
+
+describe('calendar', () => {
+  it('knows month lengths and leap years', () => {
+    expect(getDaysInMonth(1989, 2)).toBe(28);
+    expect(getDaysInMonth(1988, 2)).toBe(29);
+    expect(getDaysInMonth(1990, 4)).toBe(30);
+    expect(isValidDate({ day: 29, month: 2, year: 2000 })).toBe(true);
+    expect(isValidDate({ day: 29, month: 2, year: 1900 })).toBe(false);
+    expect(isValidDate({ day: 31, month: 4, year: 1990 })).toBe(false);
+  });
+
+  it('checks ranges and years', () => {
+    expect(isValidDate({ day: 11, endDay: 17, month: 12, year: 1989 })).toBe(true);
+    expect(isValidDate({ day: 17, endDay: 11, month: 12, year: 1989 })).toBe(false);
+    expect(isValidDate({ month: 12, year: 1899 })).toBe(false);
+    expect(isValidDate({ month: 1, year: new Date().getFullYear() + 1 })).toBe(false);
+  });
+});
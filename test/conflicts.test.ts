@@ -0,0 +1,86 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { describe, expect, it } from 'vitest';
+import { ConflictPolicy, transferFile } from '../src/services/conflicts';
+import { makeTempDir } from './helpers/tempDir';
+
+const OLD = new Date(2000, 0, 1);
+const NEW = new Date(2020, 0, 1);
+
+// Lays out a source file and an existing destination with the given contents and ages
+async function setup(sourceContent: string, targetContent: string, sourceTime = NEW, targetTime = OLD) {
+  const dir = await makeTempDir();
+  const source = path.join(dir, 'in', 'scan.pdf');
+  const target = path.join(dir, 'out', 'scan.pdf');
+  await fs.outputFile(source, sourceContent);
+  await fs.outputFile(target, targetContent);
+  await fs.utimes(source, sourceTime, sourceTime);
+  await fs.utimes(target, targetTime, targetTime);
+  return { dir, source, target };
+}
+
+async function transferWith(policy: ConflictPolicy, sourceContent: string, targetContent: string, sourceTime?: Date, targetTime?: Date) {
+  const { dir, source, target } = await setup(sourceContent, targetContent, sourceTime, targetTime);
+  const result = await transferFile(source, target, 'move', policy);
+  return { dir, source, target, result };
+}
+
+describe('conflict policies', () => {
+  it('creates files whose destination is free', async () => {
+    const dir = await makeTempDir();
+    const source = path.join(dir, 'scan.pdf');
+    await fs.writeFile(source, 'nuevo');
+
+    const result = await transferFile(source, path.join(dir, 'out', 'a', 'scan.pdf'), 'copy', 'skip');
+    expect(result).toEqual({ fileName: 'scan.pdf', targetPath: path.join(dir, 'out', 'a', 'scan.pdf'), decision: 'created' });
+    expect(await fs.pathExists(source)).toBe(true);
+  });
+
+  it('overwrites or skips', async () => {
+    const overwrite = await transferWith('overwrite', 'nuevo', 'viejo');
+    expect(overwrite.result.decision).toBe('overwritten');
+    expect(await fs.readFile(overwrite.target, 'utf8')).toBe('nuevo');
+
+    const skip = await transferWith('skip', 'nuevo', 'viejo');
+    expect(skip.result.decision).toBe('skipped');
+    expect(await fs.readFile(skip.target, 'utf8')).toBe('viejo');
+    expect(await fs.pathExists(skip.source)).toBe(true);
+  });
+
+  it('renames with the first free numbered suffix', async () => {
+    const { dir, source, target } = await setup('nuevo', 'viejo');
+    await fs.writeFile(path.join(dir, 'out', 'scan (2).pdf'), 'otro');
+
+    const result = await transferFile(source, target, 'move', 'rename');
+    expect(result).toMatchObject({ decision: 'renamed', targetPath: path.join(dir, 'out', 'scan (3).pdf') });
+    expect(await fs.readFile(target, 'utf8')).toBe('viejo');
+  });
+
+  it('replaces only older files with the newer policy', async () => {
+    const newer = await transferWith('newer', 'nuevo', 'viejo', NEW, OLD);
+    expect(newer.result.decision).toBe('overwritten');
+
+    const older = await transferWith('newer', 'nuevo', 'viejo', OLD, NEW);
+    expect(older.result.decision).toBe('kept-existing');
+    expect(await fs.readFile(older.target, 'utf8')).toBe('viejo');
+  });
+
+  it('skips identical content and keeps different content side by side with the hash policy', async () => {
+    const identical = await transferWith('hash', 'igual', 'igual');
+    expect(identical.result.decision).toBe('identical');
+
+    const different = await transferWith('hash', 'nuevo', 'viejo');
+    expect(different.result).toMatchObject({ decision: 'renamed', targetPath: path.join(different.dir, 'out', 'scan (2).pdf') });
+    expect(await fs.readFile(different.target, 'utf8')).toBe('viejo');
+  });
+
+  it('never replaces a folder with a file', async () => {
+    const dir = await makeTempDir();
+    const source = path.join(dir, 'scan.pdf');
+    await fs.writeFile(source, 'nuevo');
+    await fs.ensureDir(path.join(dir, 'out', 'scan.pdf'));
+
+    const result = await transferFile(source, path.join(dir, 'out', 'scan.pdf'), 'move', 'overwrite');
+    expect(result).toMatchObject({ decision: 'renamed', targetPath: path.join(dir, 'out', 'scan (2).pdf') });
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { createDiaryRegistry, getPublicationWarning, normalizeDiaryName, validateDiaryEntry } from '../src/services/diaries';
+
+describe('diary registry', () => {
+  it('compares names without case, accents, punctuation or a trailing article', () => {
+    expect(normalizeDiaryName('Tercera, La')).toBe('la tercera');
+    expect(normalizeDiaryName('  LA  TERCERA. ')).toBe('la tercera');
+    expect(normalizeDiaryName('El Mercurio de Valparaíso')).toBe('el mercurio de valparaiso');
+  });
+
+  it('resolves names, aliases and alias expressions', () => {
+    const registry = createDiaryRegistry([
+      { name: 'La Tercera', aliases: ['La 3a', '/^la tercera de la hora$/'] },
+      { name: 'El Mercurio', aliases: [] }
+    ]);
+
+    expect(registry.resolve('Tercera, La')?.name).toBe('La Tercera');
+    expect(registry.resolve('la 3a')?.name).toBe('La Tercera');
+    expect(registry.resolve('La Tercera de la Hora')?.name).toBe('La Tercera');
+    expect(registry.resolve('EL MERCURIO')?.name).toBe('El Mercurio');
+    expect(registry.resolve('La Segunda')).toBeUndefined();
+  });
+
+  it('keeps the first entry that claims a name and skips invalid entries', () => {
+    const registry = createDiaryRegistry([
+      { name: 'La Tercera', aliases: ['Tercera'] },
+      { name: 'Tercera Edición', aliases: ['Tercera'] },
+      { name: 'Rota', aliases: ['/[/'] }
+    ]);
+
+    expect(registry.resolve('Tercera')?.name).toBe('La Tercera');
+    expect(registry.resolve('Rota')).toBeUndefined();
+  });
+
+  it('explains why an entry is invalid', () => {
+    expect(validateDiaryEntry({ name: ' ', aliases: [] })).toBe('El diario necesita un nombre');
+    expect(validateDiaryEntry({ name: 'A', aliases: ['/[/'] })).toContain('Expresión no válida /[/');
+    expect(validateDiaryEntry({ name: 'A', aliases: [], firstYear: 1990, lastYear: 1980 })).toBe('El primer año de publicación es posterior al último');
+    expect(validateDiaryEntry({ name: 'A', aliases: [], firstYear: 1980 })).toBeNull();
+  });
+
+  it('flags dates outside the publication years', () => {
+    const entry = { name: 'La Época', aliases: [], firstYear: 1987, lastYear: 1998 };
+    expect(getPublicationWarning(entry, 1990)).toBeNull();
+    expect(getPublicationWarning(entry, 2001)).toBe('La Época se publicó entre 1987 y 1998; revisa el año 2001');
+    expect(getPublicationWarning({ name: 'La Tercera', aliases: [], firstYear: 1950 }, 1940)).toBe('La Tercera se publica desde 1950; revisa el año 1940');
+    expect(getPublicationWarning({ name: 'Fortín Mapocho', aliases: [], lastYear: 1991 }, 1995)).toBe('Fortín Mapocho se publicó hasta 1991; revisa el año 1995');
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { DISK_SPACE_MARGIN_BYTES, findExistingParent, formatSize, getFreeSpace, isSameVolume, planDiskUsage } from '../src/services/diskSpace';
+import { makeTempDir } from './helpers/tempDir';
+
+const MB = 1024 * 1024;
+
+describe('disk space', () => {
+  it('keeps the safety margin free', () => {
+    const plan = planDiskUsage([{ fileName: 'a.zip', estimatedSize: 100 * MB }], DISK_SPACE_MARGIN_BYTES + 99 * MB);
+    expect(plan).toEqual({ required: 100 * MB, available: 99 * MB, fits: false, fitting: [] });
+  });
+
+  it('lists the items that fit in order, skipping the ones that overflow', () => {
+    const plan = planDiskUsage([
+      { fileName: 'a.zip', estimatedSize: 60 * MB },
+      { fileName: 'b.zip', estimatedSize: 50 * MB },
+      { fileName: 'c.zip', estimatedSize: 30 * MB }
+    ], DISK_SPACE_MARGIN_BYTES + 100 * MB);
+
+    expect(plan.fits).toBe(false);
+    expect(plan.required).toBe(140 * MB);
+    expect(plan.fitting).toEqual(['a.zip', 'c.zip']);
+  });
+
+  it('never reports negative space', () => {
+    expect(planDiskUsage([], 10).available).toBe(0);
+  });
+
+  it('reads the free space of the nearest existing folder', async () => {
+    const dir = await makeTempDir();
+    expect(await findExistingParent(`${dir}/todavia/no/existe`)).toBe(dir);
+    expect(await getFreeSpace(`${dir}/todavia/no/existe`)).toBe(await getFreeSpace(dir));
+    expect(await isSameVolume(`${dir}/nueva`, dir)).toBe(true);
+  });
+
+  it('formats sizes with a decimal comma', () => {
+    expect(formatSize(512)).toBe('512 B');
+    expect(formatSize(1536)).toBe('1,5 KB');
+    expect(formatSize(3 * 1024 * MB)).toBe('3,0 GB');
+  });
+});
@@ -0,0 +1,147 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { describe, expect, it } from 'vitest';
+import { estimateExtractedSize, extractArchive, findExtractor, getArchiveBaseName, getExtractorAvailability, isArchiveEncrypted, isSupportedArchive, probeArchiveIntegrity } from '../src/services/extractors';
+import { buildTar, buildZip } from './helpers/archives';
+import { makeTempDir } from './helpers/tempDir';
+
+describe('extractor registry', () => {
+  it.each([
+    ['Diario.zip', 'zip'],
+    ['DIARIO.ZIP', 'zip'],
+    ['Diario.rar', '7z'],
+    ['Diario.7z', '7z'],
+    ['Diario.cbz', 'zip'],
+    ['Diario.cbr', '7z'],
+    ['Diario.tar', 'tar'],
+    ['Diario.tar.gz', 'tar'],
+    ['Diario.tgz', 'tar'],
+    ['Diario.tar.bz2', 'tar-bz2'],
+    ['Diario.tbz2', 'tar-bz2'],
+    ['Diario.tbz', 'tar-bz2']
+  ])('picks the extractor of %j', (fileName, id) => {
+    expect(findExtractor(fileName)?.id).toBe(id);
+  });
+
+  it('leaves other files out', () => {
+    expect(isSupportedArchive('Diario.pdf')).toBe(false);
+    expect(findExtractor('zip')).toBeUndefined();
+  });
+
+  it('strips the archive extension from names', () => {
+    expect(getArchiveBaseName('/in/La Tercera - 1 de enero de 1990.zip')).toBe('La Tercera - 1 de enero de 1990');
+    expect(getArchiveBaseName('notas.txt')).toBe('notas');
+    expect(getArchiveBaseName('/in/El Siglo 1990.tar.gz')).toBe('El Siglo 1990');
+  });
+
+  it('always has the built-in ZIP reader available', async () => {
+    expect(await getExtractorAvailability(findExtractor('a.zip')!)).toEqual({ available: true });
+  });
+
+  it('extracts through the extractor that owns the extension', async () => {
+    const dir = await makeTempDir();
+    const zipPath = path.join(dir, 'diario.zip');
+    await fs.writeFile(zipPath, buildZip([{ name: 'a.txt', data: 'uno' }]));
+
+    await extractArchive(zipPath, path.join(dir, 'out'));
+    expect(await fs.readFile(path.join(dir, 'out', 'a.txt'), 'utf8')).toBe('uno');
+    await expect(extractArchive(path.join(dir, 'diario.pdf'), path.join(dir, 'out'))).rejects.toThrow('Formato de archivo no soportado: .pdf');
+  });
+
+  it('tries each saved password until one opens the archive', async () => {
+    const dir = await makeTempDir();
+    const zipPath = path.join(dir, 'secreto.zip');
+    await fs.writeFile(zipPath, buildZip([{ name: 'a.txt', data: 'uno', password: 'clave' }]));
+
+    expect(await isArchiveEncrypted(zipPath)).toBe(true);
+    await expect(extractArchive(zipPath, path.join(dir, 'fail'), { passwords: ['otra', 'otra', ''] })).rejects.toMatchObject({
+      reason: 'wrong',
+      message: 'Contraseña incorrecta (se probaron 1)'
+    });
+
+    await extractArchive(zipPath, path.join(dir, 'out'), { passwords: ['otra', 'clave'] });
+    expect(await fs.readdir(path.join(dir, 'out'))).toEqual(['a.txt']);
+  });
+});
+
+describe('archive integrity probe', () => {
+  it('accepts intact archives and flags truncated ones', async () => {
+    const dir = await makeTempDir();
+    const zip = buildZip([{ name: 'a.txt', data: 'uno' }]);
+    const tar = buildTar([{ name: 'a.txt', data: 'uno' }]);
+    const files: Record<string, Buffer> = {
+      'ok.zip': zip,
+      'ok.tar': tar,
+      'ok.tgz': zlib.gzipSync(tar),
+      'cut.zip': zip.subarray(0, zip.length - 10),
+      'cut.tar': tar.subarray(0, 700),
+      'fake.tar.gz': tar
+    };
+    for (const [name, content] of Object.entries(files)) {
+      await fs.writeFile(path.join(dir, name), content);
+    }
+
+    expect(await probeArchiveIntegrity(path.join(dir, 'ok.zip'))).toBeNull();
+    expect(await probeArchiveIntegrity(path.join(dir, 'ok.tar'))).toBeNull();
+    expect(await probeArchiveIntegrity(path.join(dir, 'ok.tgz'))).toBeNull();
+    expect(await probeArchiveIntegrity(path.join(dir, 'cut.zip'))).not.toBeNull();
+    expect(await probeArchiveIntegrity(path.join(dir, 'cut.tar'))).toBe('el archivo TAR está incompleto');
+    expect(await probeArchiveIntegrity(path.join(dir, 'fake.tar.gz'))).toBe('no es un archivo gzip válido');
+  });
+
+  it('flags bzip2 tar archives that are not compressed', async () => {
+    const dir = await makeTempDir();
+    const filePath = path.join(dir, 'falso.tbz2');
+    await fs.writeFile(filePath, buildTar([{ name: 'a.txt', data: 'uno' }]));
+
+    expect(await probeArchiveIntegrity(filePath)).toBe('no es un archivo bzip2 válido');
+  });
+
+  const tar = buildTar([{ name: 'a.txt', data: 'uno' }]);
+  // Only the signature is probed, so a bzip2 header stands in for a whole archive
+  const bzip2Tar = Buffer.concat([Buffer.from('BZh9', 'ascii'), tar]);
+
+  it.each([
+    ['.zip', buildZip([{ name: 'a.txt', data: 'uno' }])],
+    ['.cbz', buildZip([{ name: 'a.txt', data: 'uno' }])],
+    ['.tar', tar],
+    ['.tar.gz', zlib.gzipSync(tar)],
+    ['.tgz', zlib.gzipSync(tar)],
+    ['.tar.bz2', bzip2Tar],
+    ['.tbz2', bzip2Tar],
+    ['.tbz', bzip2Tar]
+  ])('accepts an intact %s archive', async (extension, content) => {
+    const dir = await makeTempDir();
+    const filePath = path.join(dir, `Diario${extension}`);
+    await fs.writeFile(filePath, content);
+
+    expect(await probeArchiveIntegrity(filePath)).toBeNull();
+  });
+
+  it.each(['.rar', '.7z', '.cbr'])('skips %s archives while 7-Zip is missing', async extension => {
+    const extractor = findExtractor(`Diario${extension}`)!;
+    if ((await getExtractorAvailability(extractor)).available) {
+      return;
+    }
+
+    const dir = await makeTempDir();
+    const filePath = path.join(dir, `Diario${extension}`);
+    await fs.writeFile(filePath, 'no es un archivo');
+    expect(await probeArchiveIntegrity(filePath)).toBeNull();
+  });
+});
+
+describe('extracted size estimate', () => {
+  it('reads the uncompressed sizes from the archive', async () => {
+    const dir = await makeTempDir();
+    const zipPath = path.join(dir, 'diario.zip');
+    const tgzPath = path.join(dir, 'diario.tgz');
+    const tar = buildTar([{ name: 'a.txt', data: 'uno' }]);
+    await fs.writeFile(zipPath, buildZip([{ name: 'a.txt', data: 'dos '.repeat(100), deflate: true }]));
+    await fs.writeFile(tgzPath, zlib.gzipSync(tar));
+
+    expect(await estimateExtractedSize(zipPath, [zipPath])).toEqual({ size: 400, exact: true });
+    expect(await estimateExtractedSize(tgzPath, [tgzPath])).toEqual({ size: tar.length, exact: true });
+  });
+});
@@ -0,0 +1,172 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { describe, expect, it } from 'vitest';
+import { compilePattern, DEFAULT_FILENAME_PATTERNS, FilenamePatternError, matchPattern, upgradeFilenamePatterns } from '../src/services/filenamePatterns';
+import { createFileNameParser, testFilenamePatterns } from '../src/services/fileProcessor';
+import { getLocalePacks, LOCALE_IDS } from '../src/services/locales';
+import { makeTempDir } from './helpers/tempDir';
+
+const packs = getLocalePacks(LOCALE_IDS);
+
+const BASELINE_MONTHS = ['enero', 'febrero', 'marzo', 'abril', 'mayo', 'junio', 'julio', 'agosto', 'septiembre', 'octubre', 'noviembre', 'diciembre'];
+
+// The fixed expressions used before configurable rules, in their order: [regex, diary, day, month, year] groups
+const BASELINE_RULES: [RegExp, number, number | null, number, number][] = [
+  [/^(.+?)\s*-\s*(\d{1,2})\s+de\s+(\w+)\s+(?:de|del)\s+(\d{4})$/i, 1, 2, 3, 4],
+  [/^(.+?)\s*-\s*(\w+)\s+(\d{4})$/i, 1, null, 2, 3],
+  [/(\d{4})[_-](\d{1,2})[_-](\d{1,2})[_-](.+)/, 4, 3, 2, 1],
+  [/(\d{4})(\d{2})(\d{2})[_-](.+)/, 4, 3, 2, 1],
+  [/(.+)[_-](\d{4})[_-](\d{1,2})[_-](\d{1,2})/, 1, 4, 3, 2]
+];
+
+function parseWithBaselineRules(fileName: string): { diary: string; day?: number; month: number; year: number } | null {
+  const name = fileName.replace(/\.[^.]*$/, '');
+  for (const [regex, diary, day, month, year] of BASELINE_RULES) {
+    const match = regex.exec(name);
+    if (match) {
+      const monthValue = /^\d+$/.test(match[month]) ? parseInt(match[month], 10) : BASELINE_MONTHS.indexOf(match[month].toLowerCase()) + 1;
+      const result = { diary: match[diary].trim(), month: monthValue, year: parseInt(match[year], 10) };
+      return day === null ? result : { ...result, day: parseInt(match[day], 10) };
+    }
+  }
+  return null;
+}
+
+describe('pattern compiler', () => {
+  it('captures the placeholders of a rule', () => {
+    const compiled = compilePattern('{*}{year}{MM}{DD}[-|_]{diary}', packs);
+    expect(matchPattern(compiled, 'scan 19891211_La Tercera')).toEqual({ year: '1989', month: '12', day: '11', diary: 'La Tercera' });
+  });
+
+  it.each([
+    ['{diary} - {day} de {month}', 'necesita'],
+    ['{year} {diary}', 'necesita'],
+    ['{diary} - {date} {year}', '{date} ya incluye'],
+    ['{diary} {year} {year} {M}', 'más de una vez'],
+    ['{diary} - {nope} {year}', 'marcador desconocido'],
+    ['{diary} - {year', 'falta cerrar']
+  ])('rejects %j', (pattern, detail) => {
+    expect(() => compilePattern(pattern, packs)).toThrow(FilenamePatternError);
+    expect(() => compilePattern(pattern, packs)).toThrow(detail);
+  });
+});
+
+describe('file name parser', () => {
+  const parse = createFileNameParser(DEFAULT_FILENAME_PATTERNS);
+
+  it.each([
+    ['La Tercera - 11 de diciembre de 1989', { diary: 'La Tercera', day: 11, month: 12, year: 1989 }],
+    ['TV Grama - Diciembre 1989', { diary: 'TV Grama', month: 12, year: 1989 }],
+    ['Jornal do Brasil - 12 de dezembro de 1989', { diary: 'Jornal do Brasil', day: 12, month: 12, year: 1989 }],
+    ['The Times - December 11, 1989', { diary: 'The Times', day: 11, month: 12, year: 1989 }],
+    ['1989-12-11_La Tercera', { diary: 'La Tercera', day: 11, month: 12, year: 1989 }],
+    ['19891211_La Tercera', { diary: 'La Tercera', day: 11, month: 12, year: 1989 }],
+    ['La Tercera_1989-12-11', { diary: 'La Tercera', day: 11, month: 12, year: 1989 }]
+  ])('parses %j', (name, expected) => {
+    expect(parse(name)).toEqual(expected);
+  });
+
+  it('skips disabled rules and falls through rules that give no valid date', () => {
+    const onlyNumeric = createFileNameParser([
+      { pattern: '{diary} - {day} de {month} [de|del] {year}', enabled: false },
+      { pattern: '{diary}_{year}-{M}-{D}', enabled: true }
+    ]);
+    expect(onlyNumeric('La Tercera - 11 de diciembre de 1989')).toBeNull();
+    expect(onlyNumeric('La Tercera_1989-13-11')).toBeNull();
+    expect(onlyNumeric('La Tercera_1989-12-11.zip')).toEqual({ diary: 'La Tercera', day: 11, month: 12, year: 1989 });
+  });
+
+  it('only reads the languages it is given', () => {
+    const spanishOnly = createFileNameParser(DEFAULT_FILENAME_PATTERNS, ['es']);
+    expect(spanishOnly('The Times - December 11, 1989')).toBeNull();
+    expect(spanishOnly('La Tercera - 11 de diciembre de 1989')).toMatchObject({ day: 11, month: 12 });
+  });
+
+  it('upgrades the anchored numeric rules of earlier defaults', () => {
+    const saved = [
+      { pattern: '{diary} - {date}', enabled: true },
+      { pattern: '{year}{MM}{DD}[-|_]{diary}', enabled: false }
+    ];
+    expect(upgradeFilenamePatterns(saved)).toEqual([
+      { pattern: '{diary} - {date}', enabled: true },
+      { pattern: '{*}{year}{MM}{DD}[-|_]{diary}', enabled: false }
+    ]);
+  });
+
+  it('strips extensions, but not the dots inside dates and issue numbers', () => {
+    expect(parse('La Tercera - 11 de diciembre de 1989.7z')).toMatchObject({ diary: 'La Tercera', day: 11 });
+    expect(parse('TV Grama - dic. 1989')).toMatchObject({ diary: 'TV Grama', month: 12 });
+  });
+
+  it.each([
+    ['Scan 1989-12-11_La Tercera', { diary: 'La Tercera', day: 11, month: 12, year: 1989 }],
+    ['IMG19891211-La Tercera', { diary: 'La Tercera', day: 11, month: 12, year: 1989 }],
+    ['El Siglo_1990-1-5 (copia)', { diary: 'El Siglo', day: 5, month: 1, year: 1990 }]
+  ])('finds numeric dates anywhere in %j', (name, expected) => {
+    expect(parse(name)).toEqual(expected);
+  });
+
+  it('parses every name the rules it replaced could parse', () => {
+    const names = [
+      'La Tercera - 11 de diciembre de 1989.zip',
+      'La Tercera - 11 de diciembre del 1989.zip',
+      'TV Grama - Diciembre 1989.zip',
+      'TV Grama-marzo 1990.rar',
+      '1989-12-11_La Tercera.zip',
+      '1990_1_5-El Siglo.zip',
+      'Scan 1989-12-11_La Tercera.zip',
+      '19891211_La Tercera.zip',
+      'IMG19891211-La Tercera.7z',
+      'La Tercera_1989-12-11.zip',
+      'La Tercera_1989-12-11 (copia).zip',
+      'El Siglo-1990_1_5_v2.zip',
+      'Informe final 2020-01-05-Anexo.pdf'
+    ];
+
+    for (const name of names) {
+      const expected = parseWithBaselineRules(name);
+      expect(expected, name).not.toBeNull();
+      expect(parse(name), name).toMatchObject(expected!);
+    }
+  });
+
+  it('rejects dates that are not in the calendar', () => {
+    expect(parse('La Tercera - 31 de febrero de 1989')).toBeNull();
+    expect(parse('19890229_La Tercera')).toBeNull();
+  });
+
+  it('resolves diary aliases and flags dates outside the publication years', () => {
+    const withRegistry = createFileNameParser(DEFAULT_FILENAME_PATTERNS, undefined, [
+      { name: 'La Tercera', aliases: ['/^la tercera de la hora$/'], firstYear: 1950 }
+    ]);
+    expect(withRegistry('Tercera, La - 11 de diciembre de 1989')).toMatchObject({ diary: 'La Tercera', originalDiary: 'Tercera, La' });
+    expect(withRegistry('La Tercera de la Hora - 1 de enero de 1940')).toMatchObject({
+      diary: 'La Tercera',
+      publicationWarning: 'La Tercera se publica desde 1950; revisa el año 1940'
+    });
+  });
+
+  it('reads edition and supplement markers around the date', () => {
+    expect(parse('El Mercurio - Suplemento Deportes - 1 de enero de 1990')).toMatchObject({
+      diary: 'El Mercurio',
+      supplement: 'Deportes'
+    });
+  });
+
+  it('tests unsaved rules against the archives of a folder', async () => {
+    const dir = await makeTempDir();
+    await fs.writeFile(path.join(dir, 'La Tercera_1989-12-11.zip'), '');
+    await fs.writeFile(path.join(dir, 'notas.zip'), '');
+
+    const result = await testFilenamePatterns(dir, [
+      { pattern: '{diary} - {year', enabled: true },
+      { pattern: '{diary}_{year}-{M}-{D}', enabled: true }
+    ]);
+
+    expect(result.success).toBe(true);
+    expect(result.patternErrors[0]).toContain('falta cerrar');
+    const byName = Object.fromEntries(result.items.map(item => [item.fileName, item]));
+    expect(byName['La Tercera_1989-12-11.zip']).toMatchObject({ patternIndex: 1, targetPathLabel: '1989 / 12 - Diciembre / La Tercera' });
+    expect(byName['notas.zip'].patternIndex).toBeUndefined();
+  });
+});
@@ -0,0 +1,81 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { describe, expect, it } from 'vitest';
+import { FingerprintRecord, getArchiveSize, getFingerprintStorePath, hashArchive, openFingerprintStore } from '../src/services/fingerprints';
+import { makeTempDir } from './helpers/tempDir';
+
+function record(fileName: string, archiveHash: string, entries: string[], destination = 'La Tercera/1990'): FingerprintRecord {
+  return { fileName, archiveHash, archiveSize: 100, entries, destination, importedAt: '2026-01-01T00:00:00.000Z' };
+}
+
+describe('fingerprint store', () => {
+  it('hashes the volumes of a set as one stream', async () => {
+    const dir = await makeTempDir();
+    await fs.writeFile(path.join(dir, 'a.part1.rar'), 'primera ');
+    await fs.writeFile(path.join(dir, 'a.part2.rar'), 'segunda');
+    const volumes = [path.join(dir, 'a.part1.rar'), path.join(dir, 'a.part2.rar')];
+
+    expect(await hashArchive(volumes)).toBe(crypto.createHash('sha256').update('primera segunda').digest('hex'));
+    expect(await getArchiveSize(volumes)).toBe(15);
+  });
+
+  it('finds earlier imports by archive and by content, newest first', async () => {
+    const dir = await makeTempDir();
+    const store = await openFingerprintStore(dir);
+    await store.add(record('a.zip', 'hash-a', ['e1', 'e2'], 'La Tercera/1990'));
+    await store.add(record('a-copia.zip', 'hash-a', ['e1', 'e2'], 'La Tercera/1991'));
+
+    expect(store.findByArchive('hash-a')?.destination).toBe('La Tercera/1991');
+    expect(store.findByArchive('hash-b')).toBeUndefined();
+    expect(store.findByContent(['e1', 'e2'])?.fileName).toBe('a-copia.zip');
+    expect(store.findByContent(['e1', 'e3'])).toBeUndefined();
+    expect(store.findByContent([])).toBeUndefined();
+    expect(store.hasArchiveSize(100)).toBe(true);
+    expect(store.hasArchiveSize(101)).toBe(false);
+  });
+
+  it('matches content only when the same files were extracted', async () => {
+    const dir = await makeTempDir();
+    const store = await openFingerprintStore(dir);
+    await store.add(record('anual.zip', 'hash-a', ['e1', 'e2', 'e3'], 'La Tercera/1990'));
+    await store.add(record('enero.zip', 'hash-b', ['e1'], 'La Tercera/1990/01'));
+
+    // Part of an earlier import, or more than it, is a different archive
+    expect(store.findByContent(['e1', 'e2'])).toBeUndefined();
+    expect(store.findByContent(['e1', 'e4'])).toBeUndefined();
+    expect(store.findByContent(['e1', 'e2', 'e3', 'e4'])).toBeUndefined();
+    expect(store.findByContent(['e1'])?.fileName).toBe('enero.zip');
+    expect(store.findByContent(['e1', 'e2', 'e3'])?.fileName).toBe('anual.zip');
+  });
+
+  it('keeps the history in the library folder', async () => {
+    const dir = await makeTempDir();
+    await (await openFingerprintStore(dir)).add(record('a.zip', 'hash-a', ['e1']));
+
+    const reopened = await openFingerprintStore(dir);
+    expect(reopened.findByArchive('hash-a')?.fileName).toBe('a.zip');
+    expect(getFingerprintStorePath(dir)).toBe(path.join(dir, '.archidrop', 'fingerprints.json'));
+  });
+
+  it('forgets the imports of an undone job', async () => {
+    const dir = await makeTempDir();
+    const store = await openFingerprintStore(dir);
+    await store.add(record('a.zip', 'hash-a', ['e1']));
+    await store.add(record('b.zip', 'hash-b', ['e2']));
+
+    await store.removeWhere(item => item.fileName === 'a.zip');
+    expect(store.findByArchive('hash-a')).toBeUndefined();
+    expect((await openFingerprintStore(dir)).findByArchive('hash-b')?.fileName).toBe('b.zip');
+  });
+
+  it('sets an unreadable store aside instead of overwriting it', async () => {
+    const dir = await makeTempDir();
+    const storePath = getFingerprintStorePath(dir);
+    await fs.outputFile(storePath, '{ roto');
+
+    const store = await openFingerprintStore(dir);
+    expect(store.findByArchive('hash-a')).toBeUndefined();
+    expect(await fs.readFile(`${storePath}.bak`, 'utf8')).toBe('{ roto');
+  });
+});
@@ -0,0 +1,201 @@
+// Builds small archives in memory, so the readers can be tested against exact byte layouts
+
+import * as zlib from 'zlib';
+
+export interface ZipFixtureEntry {
+  name: string;
+  data?: string;
+  // Stored compressed with deflate instead of as is
+  deflate?: boolean;
+  // Encrypted with ZipCrypto under this password
+  password?: string;
+  // Marked as a Unix symbolic link whose target is the data
+  symlink?: boolean;
+}
+
+export interface ZipFixtureOptions {
+  // Saturates the 32-bit fields and stores the real values in ZIP64 records
+  zip64?: boolean;
+}
+
+// 1 January 1990, 00:00
+const DOS_DATE = (10 << 9) | (1 << 5) | 1;
+const ZIP64_MARKER = 0xffffffff;
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let value = index;
+  for (let bit = 0; bit < 8; bit++) {
+    value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+  }
+  return value >>> 0;
+});
+
+export function updateCrc32(crc: number, byte: number): number {
+  return (CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)) >>> 0;
+}
+
+export function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = updateCrc32(crc, byte);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function encryptZipCrypto(password: string, crc: number, data: Buffer): Buffer {
+  const keys = new Uint32Array([0x12345678, 0x23456789, 0x34567890]);
+  const updateKeys = (byte: number): void => {
+    keys[0] = updateCrc32(keys[0], byte);
+    keys[1] = Math.imul(keys[1] + (keys[0] & 0xff), 134775813) + 1;
+    keys[2] = updateCrc32(keys[2], keys[1] >>> 24);
+  };
+  for (const byte of Buffer.from(password, 'utf8')) {
+    updateKeys(byte);
+  }
+
+  // Eleven filler bytes, then the high byte of the CRC that readers use to check the password
+  const plain = Buffer.concat([Buffer.alloc(11, 0x5a), Buffer.from([crc >>> 24]), data]);
+  const encrypted = Buffer.alloc(plain.length);
+  plain.forEach((byte, index) => {
+    const temp = (keys[2] | 2) & 0xffff;
+    encrypted[index] = byte ^ ((Math.imul(temp, temp ^ 1) >>> 8) & 0xff);
+    updateKeys(byte);
+  });
+  return encrypted;
+}
+
+function uint64(...values: number[]): Buffer {
+  const buffer = Buffer.alloc(values.length * 8);
+  values.forEach((value, index) => buffer.writeBigUInt64LE(BigInt(value), index * 8));
+  return buffer;
+}
+
+function extraField(id: number, data: Buffer): Buffer {
+  const header = Buffer.alloc(4);
+  header.writeUInt16LE(id, 0);
+  header.writeUInt16LE(data.length, 2);
+  return Buffer.concat([header, data]);
+}
+
+export function buildZip(entries: ZipFixtureEntry[], options: ZipFixtureOptions = {}): Buffer {
+  const zip64 = options.zip64 === true;
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8');
+    const plain = Buffer.from(entry.data || '', 'utf8');
+    const crc = crc32(plain);
+    const compressed = entry.deflate ? zlib.deflateRawSync(plain) : plain;
+    const stored = entry.password ? encryptZipCrypto(entry.password, crc, compressed) : compressed;
+    const method = entry.deflate ? 8 : 0;
+    const flags = 0x0800 | (entry.password ? 0x0001 : 0);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(zip64 ? 45 : 20, 4);
+    local.writeUInt16LE(flags, 6);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt16LE(0, 10);
+    local.writeUInt16LE(DOS_DATE, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(zip64 ? ZIP64_MARKER : stored.length, 18);
+    local.writeUInt32LE(zip64 ? ZIP64_MARKER : plain.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    const localExtra = zip64 ? extraField(0x0001, uint64(plain.length, stored.length)) : Buffer.alloc(0);
+    local.writeUInt16LE(localExtra.length, 28);
+    const localRecord = Buffer.concat([local, name, localExtra, stored]);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(entry.symlink ? (3 << 8) | 20 : 20, 4);
+    central.writeUInt16LE(zip64 ? 45 : 20, 6);
+    central.writeUInt16LE(flags, 8);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt16LE(0, 12);
+    central.writeUInt16LE(DOS_DATE, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(zip64 ? ZIP64_MARKER : stored.length, 20);
+    central.writeUInt32LE(zip64 ? ZIP64_MARKER : plain.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    const centralExtra = zip64 ? extraField(0x0001, uint64(plain.length, stored.length, offset)) : Buffer.alloc(0);
+    central.writeUInt16LE(centralExtra.length, 30);
+    central.writeUInt32LE(entry.symlink ? (0o120777 << 16) >>> 0 : 0, 38);
+    central.writeUInt32LE(zip64 ? ZIP64_MARKER : offset, 42);
+
+    locals.push(localRecord);
+    centrals.push(Buffer.concat([central, name, centralExtra]));
+    offset += localRecord.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const records: Buffer[] = [];
+
+  if (zip64) {
+    const zip64Eocd = Buffer.alloc(56);
+    zip64Eocd.writeUInt32LE(0x06064b50, 0);
+    zip64Eocd.writeBigUInt64LE(BigInt(44), 4);
+    zip64Eocd.writeUInt16LE(45, 12);
+    zip64Eocd.writeUInt16LE(45, 14);
+    uint64(entries.length, entries.length, directory.length, offset).copy(zip64Eocd, 24);
+
+    const locator = Buffer.alloc(20);
+    locator.writeUInt32LE(0x07064b50, 0);
+    locator.writeBigUInt64LE(BigInt(offset + directory.length), 8);
+    locator.writeUInt32LE(1, 16);
+    records.push(zip64Eocd, locator);
+  }
+
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(zip64 ? 0xffff : entries.length, 8);
+  eocd.writeUInt16LE(zip64 ? 0xffff : entries.length, 10);
+  eocd.writeUInt32LE(zip64 ? ZIP64_MARKER : directory.length, 12);
+  eocd.writeUInt32LE(zip64 ? ZIP64_MARKER : offset, 16);
+
+  return Buffer.concat([...locals, directory, ...records, eocd]);
+}
+
+
+export interface TarFixtureEntry {
+  name: string;
+  data?: string;
+  // '0' file, '2' symbolic link, '5' directory
+  type?: string;
+  linkName?: string;
+}
+
+function writeOctal(block: Buffer, value: number, offset: number, length: number): void {
+  block.write(`${value.toString(8).padStart(length - 1, '0')}\0`, offset, length, 'ascii');
+}
+
+export function buildTar(entries: TarFixtureEntry[]): Buffer {
+  const blocks: Buffer[] = [];
+
+  for (const entry of entries) {
+    const data = Buffer.from(entry.data || '', 'utf8');
+    const header = Buffer.alloc(512);
+    header.write(entry.name, 0, 100, 'utf8');
+    writeOctal(header, 0o644, 100, 8);
+    writeOctal(header, 0, 108, 8);
+    writeOctal(header, 0, 116, 8);
+    writeOctal(header, data.length, 124, 12);
+    writeOctal(header, 631152000, 136, 12);
+    header.write(entry.type || '0', 156, 1, 'ascii');
+    header.write(entry.linkName || '', 157, 100, 'utf8');
+    header.write('ustar\0', 257, 6, 'ascii');
+    header.write('00', 263, 2, 'ascii');
+
+    // The checksum is computed with its own field filled with spaces
+    header.fill(0x20, 148, 156);
+    const sum = header.reduce((total, byte) => total + byte, 0);
+    writeOctal(header, sum, 148, 7);
+    header[155] = 0x20;
+
+    blocks.push(header, data, Buffer.alloc((512 - (data.length % 512)) % 512));
+  }
+
+  blocks.push(Buffer.alloc(1024));
+  return Buffer.concat(blocks);
+}
@@ -0,0 +1,17 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach } from 'vitest';
+
+const created: string[] = [];
+
+// A fresh folder per test, removed once the test ends
+export async function makeTempDir(): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'archidrop-test-'));
+  created.push(dir);
+  return dir;
+}
+
+afterEach(async () => {
+  await Promise.all(created.splice(0).map(dir => fs.remove(dir)));
+});
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { createJobControl, JobCancelledError } from '../src/services/jobControl';
+
+describe('job control', () => {
+  it('passes checkpoints while running', async () => {
+    const control = createJobControl();
+    await expect(control.checkpoint()).resolves.toBeUndefined();
+  });
+
+  it('holds checkpoints while paused until resumed', async () => {
+    const control = createJobControl();
+    control.pause();
+    let passed = false;
+    const waiting = control.checkpoint().then(() => { passed = true; });
+
+    await Promise.resolve();
+    expect(control.paused).toBe(true);
+    expect(passed).toBe(false);
+
+    control.resume();
+    await waiting;
+    expect(passed).toBe(true);
+  });
+
+  it('releases paused checkpoints with an error once cancelled', async () => {
+    const control = createJobControl();
+    control.pause();
+    const waiting = control.checkpoint();
+
+    control.cancel();
+    await expect(waiting).rejects.toThrow(JobCancelledError);
+    expect(control.paused).toBe(false);
+
+    // A cancelled job stays cancelled
+    control.pause();
+    expect(control.paused).toBe(false);
+    await expect(control.checkpoint()).rejects.toThrow('Procesamiento cancelado por el usuario');
+  });
+});
@@ -0,0 +1,183 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { findInterruptedJournals, listUndoableJobs, openJournal, pruneJobHistory, recoverJournal, undoJob } from '../src/services/journal';
+import { makeTempDir } from './helpers/tempDir';
+
+// Lets a test pretend the journal lives on another volume than the files
+const volumes = vi.hoisted(() => ({ same: true }));
+vi.mock('../src/services/diskSpace', async importOriginal => ({
+  ...await importOriginal<typeof import('../src/services/diskSpace')>(),
+  isSameVolume: async () => volumes.same
+}));
+
+afterEach(() => {
+  volumes.same = true;
+});
+
+interface Sandbox {
+  journalDir: string;
+  inputDir: string;
+  targetDir: string;
+}
+
+async function makeSandbox(): Promise<Sandbox> {
+  const root = await makeTempDir();
+  const sandbox = {
+    journalDir: path.join(root, 'journals'),
+    inputDir: path.join(root, 'input'),
+    targetDir: path.join(root, 'Archivos')
+  };
+  await fs.outputFile(path.join(sandbox.inputDir, 'a.pdf'), 'nuevo a');
+  await fs.outputFile(path.join(sandbox.inputDir, 'b.pdf'), 'nuevo b');
+  await fs.outputFile(path.join(sandbox.targetDir, 'a.pdf'), 'antiguo a');
+  return sandbox;
+}
+
+// Replaces Archivos/a.pdf and moves b.pdf into a new folder, as an overwrite would
+async function placeFiles(sandbox: Sandbox, operations: Awaited<ReturnType<typeof openJournal>>, unit: string): Promise<void> {
+  const ops = operations.forUnit(unit);
+  await ops.remove(path.join(sandbox.targetDir, 'a.pdf'));
+  await ops.place(path.join(sandbox.inputDir, 'a.pdf'), path.join(sandbox.targetDir, 'a.pdf'), 'move');
+  await ops.ensureDir(path.join(sandbox.targetDir, '1990', 'enero'));
+  await ops.place(path.join(sandbox.inputDir, 'b.pdf'), path.join(sandbox.targetDir, '1990', 'enero', 'b.pdf'), 'copy');
+}
+
+async function expectOriginalState(sandbox: Sandbox): Promise<void> {
+  expect(await fs.readFile(path.join(sandbox.targetDir, 'a.pdf'), 'utf8')).toBe('antiguo a');
+  expect(await fs.readFile(path.join(sandbox.inputDir, 'a.pdf'), 'utf8')).toBe('nuevo a');
+  expect(await fs.pathExists(path.join(sandbox.inputDir, 'b.pdf'))).toBe(true);
+  expect(await fs.pathExists(path.join(sandbox.targetDir, '1990'))).toBe(false);
+}
+
+describe('journal', () => {
+  it('rolls back a unit: restores replaced files and removes new ones and their folders', async () => {
+    const sandbox = await makeSandbox();
+    const journal = await openJournal(sandbox.journalDir, 'date', 'archive', sandbox.inputDir);
+
+    await placeFiles(sandbox, journal, 'lote');
+    expect(await fs.readFile(path.join(sandbox.targetDir, 'a.pdf'), 'utf8')).toBe('nuevo a');
+
+    const outcome = await journal.rollbackUnit('lote');
+    await journal.finish();
+
+    expect(outcome).toEqual({ units: ['lote'], failures: [] });
+    await expectOriginalState(sandbox);
+    expect(await fs.readdir(sandbox.journalDir)).toEqual([]);
+  });
+
+  it('refuses to place over an existing file', async () => {
+    const sandbox = await makeSandbox();
+    const journal = await openJournal(sandbox.journalDir, 'date', 'archive', sandbox.inputDir);
+
+    await expect(journal.forUnit('lote').place(path.join(sandbox.inputDir, 'a.pdf'), path.join(sandbox.targetDir, 'a.pdf'), 'move'))
+      .rejects.toThrow('El destino ya existe');
+    await journal.finish();
+  });
+
+  it('undoes a finished job from its history', async () => {
+    const sandbox = await makeSandbox();
+    const journal = await openJournal(sandbox.journalDir, 'date', 'archive', sandbox.inputDir);
+    await placeFiles(sandbox, journal, 'lote');
+    await journal.commitUnit('lote');
+    await journal.finish();
+
+    const [job] = await listUndoableJobs(sandbox.journalDir);
+    expect(job).toMatchObject({ kind: 'date', units: ['lote'] });
+
+    const outcome = await undoJob(sandbox.journalDir, job.id);
+    expect(outcome.failures).toEqual([]);
+    await expectOriginalState(sandbox);
+    expect(await listUndoableJobs(sandbox.journalDir)).toEqual([]);
+  });
+
+  it('keeps an older job blocked while a newer one changed the same files', async () => {
+    const sandbox = await makeSandbox();
+    const first = await openJournal(sandbox.journalDir, 'date', 'archive', sandbox.inputDir);
+    await placeFiles(sandbox, first, 'lote');
+    await first.commitUnit('lote');
+    await first.finish();
+    // finishedAt orders the history, so the second job must end later
+    await new Promise(resolve => setTimeout(resolve, 5));
+
+    const second = await openJournal(sandbox.journalDir, 'date', 'archive', sandbox.inputDir);
+    await second.forUnit('otro').remove(path.join(sandbox.targetDir, 'a.pdf'));
+    await second.commitUnit('otro');
+    await second.finish();
+
+    const [newer, older] = await listUndoableJobs(sandbox.journalDir);
+    expect(newer.id).toBe(second.id);
+    expect(newer.blockedBy).toBeUndefined();
+    expect(older).toMatchObject({ id: first.id, blockedBy: second.id });
+    await expect(undoJob(sandbox.journalDir, first.id)).rejects.toThrow('Primero hay que deshacer');
+
+    await undoJob(sandbox.journalDir, second.id);
+    await undoJob(sandbox.journalDir, first.id);
+    await expectOriginalState(sandbox);
+  });
+
+  it('drops the oldest jobs beyond the history size', async () => {
+    const sandbox = await makeSandbox();
+    const journal = await openJournal(sandbox.journalDir, 'date', 'archive', sandbox.inputDir);
+    await placeFiles(sandbox, journal, 'lote');
+    await journal.commitUnit('lote');
+    await journal.finish();
+
+    await pruneJobHistory(sandbox.journalDir, 1);
+    expect(await listUndoableJobs(sandbox.journalDir)).toHaveLength(1);
+    await pruneJobHistory(sandbox.journalDir, 0);
+    expect(await fs.readdir(sandbox.journalDir)).toEqual([]);
+  });
+
+  it('recovers a job that was interrupted halfway', async () => {
+    const sandbox = await makeSandbox();
+    const journal = await openJournal(sandbox.journalDir, 'date', 'archive', sandbox.inputDir);
+    await placeFiles(sandbox, journal, 'lote');
+
+    // A copy written by a process that no longer runs looks like a job cut short by a crash
+    const journalId = (await fs.readdir(sandbox.journalDir))[0];
+    const copyDir = path.join(sandbox.journalDir, 'date-1-1');
+    await fs.copy(path.join(sandbox.journalDir, journalId), copyDir);
+    const lines = (await fs.readFile(path.join(copyDir, 'journal.jsonl'), 'utf8')).trim().split('\n');
+    const begin = { ...JSON.parse(lines[0]), pid: 999999999 };
+    await fs.writeFile(path.join(copyDir, 'journal.jsonl'), `${[JSON.stringify(begin), ...lines.slice(1)].join('\n')}\n`);
+
+    const [interrupted] = await findInterruptedJournals(sandbox.journalDir);
+    expect(interrupted).toMatchObject({ id: 'date-1-1', pending: ['lote'] });
+
+    expect(await recoverJournal(sandbox.journalDir, 'date-1-1', 'rollback')).toEqual([]);
+    await expectOriginalState(sandbox);
+    await journal.finish();
+  });
+
+  it('rolls back committed units too when the whole batch fails', async () => {
+    const sandbox = await makeSandbox();
+    const journal = await openJournal(sandbox.journalDir, 'zip', 'batch', sandbox.inputDir);
+    await placeFiles(sandbox, journal, 'a.zip');
+    await journal.commitUnit('a.zip');
+    await journal.forUnit('b.zip').ensureDir(path.join(sandbox.targetDir, '1991'));
+
+    const outcome = await journal.rollbackAll();
+    await journal.finish();
+
+    expect(outcome.units.sort()).toEqual(['a.zip', 'b.zip']);
+    await expectOriginalState(sandbox);
+    expect(await fs.pathExists(path.join(sandbox.targetDir, '1991'))).toBe(false);
+  });
+
+  it('keeps backups of files on another volume next to them until the job leaves the history', async () => {
+    volumes.same = false;
+    const sandbox = await makeSandbox();
+    const journal = await openJournal(sandbox.journalDir, 'zip', 'archive', sandbox.inputDir);
+    await journal.forUnit('lote').remove(path.join(sandbox.inputDir, 'a.pdf'));
+    await journal.commitUnit('lote');
+    await journal.finish();
+
+    const backupDir = path.join(sandbox.inputDir, '.archidrop-backup', journal.id);
+    expect(await fs.readdir(backupDir)).toEqual(['1-a.pdf']);
+
+    await pruneJobHistory(sandbox.journalDir, 0);
+    expect(await fs.readdir(sandbox.inputDir)).toEqual(['b.pdf']);
+    expect(await fs.readdir(sandbox.journalDir)).toEqual([]);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { findDateCorrection, findDatePhrase, getDatePhraseSource, getLocalePacks, getMonthName, getWeekdayWarning, LOCALE_IDS, parseMonthName } from '../src/services/locales';
+
+const packs = getLocalePacks(LOCALE_IDS);
+
+describe('date phrases', () => {
+  it('reads month names and abbreviations in every language', () => {
+    expect(parseMonthName('Diciembre', packs)).toBe(12);
+    expect(parseMonthName('dic.', packs)).toBe(12);
+    expect(parseMonthName('Março', packs)).toBe(3);
+    expect(parseMonthName('sept', packs)).toBe(9);
+    expect(parseMonthName('nada', packs)).toBe(0);
+  });
+
+  it.each([
+    ['La Tercera - 11 de diciembre de 1989', { day: 11, month: 12, year: 1989 }],
+    ['11 de diciembre del 1989', { day: 11, month: 12, year: 1989 }],
+    ['12 de dezembro de 1989', { day: 12, month: 12, year: 1989 }],
+    ['December 11, 1989', { day: 11, month: 12, year: 1989 }],
+    ['11th of December, 1989', { day: 11, month: 12, year: 1989 }],
+    ["11 d'abril de 1989", { day: 11, month: 4, year: 1989 }],
+    ['1° de enero de 1990', { day: 1, month: 1, year: 1990 }],
+    ['11-17 de diciembre de 1989', { day: 11, endDay: 17, month: 12, year: 1989 }],
+    ['Lunes 11 de diciembre de 1989', { day: 11, month: 12, year: 1989, weekday: 1 }]
+  ])('finds %j', (text, expected) => {
+    expect(findDatePhrase(text, packs)).toEqual(expected);
+  });
+
+  it.each([
+    ['TV Grama - Diciembre 1989.pdf', { month: 12, year: 1989 }],
+    ['marzo 2020.pdf', { month: 3, year: 2020 }],
+    ['Revista_marzo de 2020_v2.pdf', { month: 3, year: 2020 }],
+    ['Boletín (abril 1990).pdf', { month: 4, year: 1990 }],
+    ['Notas dic. 1989 final.txt', { month: 12, year: 1989 }]
+  ])('finds the month and year set apart in %j', (text, expected) => {
+    expect(findDatePhrase(text, packs)).toEqual(expected);
+  });
+
+  it.each([
+    ['Plaza Mayo 1990.pdf'],
+    ['Informe marzo 2020.pdf'],
+    ['mayo 2024 notas.txt']
+  ])('ignores a month and year inside other words in %j', text => {
+    expect(findDatePhrase(text, packs)).toBeNull();
+  });
+
+  it('warns when the weekday does not match the date', () => {
+    expect(getWeekdayWarning(findDatePhrase('Lunes 11 de diciembre de 1989', packs)!)).toBeNull();
+    expect(getWeekdayWarning(findDatePhrase('Martes 11 de diciembre de 1989', packs)!))
+      .toBe('El 11 de diciembre de 1989 fue lunes, no martes');
+  });
+
+  it('only accepts the month names of the language of each grammar', () => {
+    expect(findDatePhrase('11 de december de 1989', packs)).toBeNull();
+    expect(findDatePhrase('12 de dezembro de 1989', getLocalePacks(['es']))).toBeNull();
+  });
+
+  it('falls back to Spanish when no known pack is selected', () => {
+    expect(getLocalePacks([])).toEqual([getLocalePacks(['es'])[0]]);
+  });
+
+  it('requires the whole text to be a date when anchored', () => {
+    expect(findDatePhrase('Diario - 11 de diciembre de 1989', packs, true)).toBeNull();
+    expect(findDatePhrase('11 de diciembre de 1989', packs, true)).not.toBeNull();
+  });
+
+  it('embeds every grammar without named groups', () => {
+    const source = getDatePhraseSource(packs);
+    expect(source).not.toContain('(?<day>');
+    expect(new RegExp(`^(${source})$`, 'iu').exec('December 11, 1989')?.[1]).toBe('December 11, 1989');
+  });
+
+  it('names months in the output language', () => {
+    expect(getMonthName(3, 'es')).toBe('marzo');
+    expect(getMonthName(3, 'pt-BR')).toBe('março');
+    expect(getMonthName(13, 'en')).toBeUndefined();
+  });
+});
+
+describe('date corrections', () => {
+  it('fixes a misspelt month', () => {
+    expect(findDateCorrection('Diario - 12 de diciembr de 1989', packs)).toEqual({
+      text: 'Diario - 12 de diciembre de 1989',
+      reason: '"diciembr" parece "diciembre"'
+    });
+  });
+
+  it('moves a day past the end of the month to the last day', () => {
+    expect(findDateCorrection('Informe 31 de abril de 1990', packs)?.text).toBe('Informe 30 de abril de 1990');
+    expect(findDateCorrection('Acta 25-31 de noviembre de 1989', packs)?.text).toBe('Acta 25-30 de noviembre de 1989');
+    expect(findDateCorrection('Nota 29 de febrero de 1989', packs)?.reason).toBe('Febrero de 1989 solo tiene 28 días');
+  });
+
+  it('leaves valid dates and unrelated words alone', () => {
+    expect(findDateCorrection('Diario - 12 de diciembre de 1989', packs)).toBeNull();
+    expect(findDateCorrection('Plaza Mayor 1990', packs)).toBeNull();
+    expect(findDateCorrection('Diario - 1 de xyz de 1990', packs)).toBeNull();
+  });
+});
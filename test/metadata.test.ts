@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { getLocalePacks, LOCALE_IDS } from '../src/services/locales';
+import { extractIssueMetadata, getMetadataFolders, parseIssueNumber } from '../src/services/metadata';
+
+const packs = getLocalePacks(LOCALE_IDS);
+
+describe('issue metadata', () => {
+  it('reads edition, supplement and issue markers', () => {
+    expect(extractIssueMetadata('El Mercurio - Edición vespertina - 1 de enero de 1990 - N° 14.532', packs)).toEqual({
+      name: 'El Mercurio - 1 de enero de 1990',
+      metadata: { edition: 'vespertina', issue: 14532 }
+    });
+  });
+
+  it('leaves names without markers untouched', () => {
+    expect(extractIssueMetadata('La Tercera - 11 de diciembre de 1989', packs)).toEqual({
+      name: 'La Tercera - 11 de diciembre de 1989',
+      metadata: {}
+    });
+  });
+
+  it('reads issue numbers with thousands separators', () => {
+    expect(parseIssueNumber('14.532')).toBe(14532);
+    expect(parseIssueNumber('1,204')).toBe(1204);
+    expect(parseIssueNumber('0')).toBeUndefined();
+  });
+
+  it('names the subfolders in the output language and field order', () => {
+    const metadata = { edition: 'vespertina', supplement: 'Deportes', issue: 14532 };
+    expect(getMetadataFolders(metadata, ['supplement', 'edition'], 'es')).toEqual(['Edición vespertina', 'Suplemento Deportes']);
+    expect(getMetadataFolders(metadata, ['issue'], 'en')).toEqual(['No. 14532']);
+    expect(getMetadataFolders({}, ['edition', 'supplement', 'issue'], 'es')).toEqual([]);
+  });
+});
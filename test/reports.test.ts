@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { PreviewResult, ProcessingResult } from '../src/services/fileProcessor';
+import { buildReport, renderReport } from '../src/services/reports';
+
+const PREVIEW: PreviewResult = {
+  success: true,
+  totalFiles: 2,
+  processableFiles: 1,
+  items: [
+    {
+      fileName: 'La Tercera - 1 de enero de 1990.zip',
+      willProcess: true,
+      targetPath: '/Archivos/La Tercera/1990/enero/1',
+      parsedInfo: { year: 1990, month: 1, day: 1, diary: 'La Tercera' },
+      encrypted: true,
+      conflicts: ['01.pdf', '02.pdf']
+    },
+    { fileName: 'notas.zip', willProcess: false, reason: 'No se reconoce la fecha' }
+  ],
+  suggestions: [{
+    fileName: 'Informe 31 de abril de 1990.zip',
+    filePath: '/in/Informe 31 de abril de 1990.zip',
+    suggestedName: 'Informe 30 de abril de 1990.zip',
+    reason: 'Abril de 1990 solo tiene 30 días'
+  }]
+};
+
+describe('reports', () => {
+  it('lists every preview item with its notes, and the files with a near-miss date', () => {
+    const report = buildReport('zip-preview', PREVIEW, '/in');
+
+    expect(report).toMatchObject({ title: 'Previsualización de extracción', inputPath: '/in' });
+    expect(report.rows).toEqual([
+      {
+        source: 'La Tercera - 1 de enero de 1990.zip',
+        diary: 'La Tercera',
+        date: '1990-01-01',
+        targetPath: '/Archivos/La Tercera/1990/enero/1',
+        outcome: 'Se procesará',
+        error: 'Protegido con contraseña; 2 archivos ya existen en el destino'
+      },
+      { source: 'notas.zip', diary: '', date: '', targetPath: '', outcome: 'Se omitirá', error: 'No se reconoce la fecha' },
+      {
+        source: 'Informe 31 de abril de 1990.zip',
+        diary: '',
+        date: '',
+        targetPath: '',
+        outcome: 'Se omitirá',
+        error: 'Fecha no válida: Abril de 1990 solo tiene 30 días; nombre sugerido: Informe 30 de abril de 1990.zip'
+      }
+    ]);
+  });
+
+  it('still records why a job failed before reaching any file', () => {
+    const result: ProcessingResult = { success: false, processed: 0, errors: [], destinations: [], error: 'Sin espacio' };
+
+    expect(buildReport('zip-result', result, '/in').rows).toEqual([
+      { source: '', diary: '', date: '', targetPath: '', outcome: 'Error', error: 'Sin espacio' }
+    ]);
+  });
+
+  it('writes CSV with a byte order mark and quoted fields', () => {
+    const report = buildReport('zip-result', {
+      success: true,
+      processed: 1,
+      errors: [],
+      destinations: [],
+      items: [{ fileName: 'El "Diario", 1990.zip', outcome: 'already-imported', diary: 'El Diario', date: '1990-01' }]
+    }, '/in');
+
+    expect(renderReport(report, 'csv')).toBe(
+      '\uFEFF"Origen","Diario","Fecha","Destino","Resultado","Error o aviso"\r\n' +
+      '"El ""Diario"", 1990.zip","El Diario","1990-01","","Ya importado",""\r\n'
+    );
+  });
+
+  it('keeps names that look like formulas as text in CSV', () => {
+    const report = buildReport('zip-result', {
+      success: false,
+      processed: 0,
+      errors: [],
+      destinations: [],
+      items: ['=HYPERLINK("x").zip', '+1.zip', '-1.zip', '@SUM.zip'].map(fileName => ({ fileName, outcome: 'failed' as const, error: '-' }))
+    }, '/in');
+    const rows = renderReport(report, 'csv').split('\r\n').slice(1, -1);
+
+    expect(rows.map(row => row.split(',')[0])).toEqual(['"\'=HYPERLINK(""x"").zip"', '"\'+1.zip"', '"\'-1.zip"', '"\'@SUM.zip"']);
+    expect(rows[0].endsWith(',"\'-"')).toBe(true);
+  });
+
+  it('escapes names in the HTML report', () => {
+    const report = buildReport('zip-preview', { ...PREVIEW, items: [{ fileName: '<b>&.zip', willProcess: false }], suggestions: [] }, '/in');
+    const html = renderReport(report, 'html');
+
+    expect(html).toContain('<td>&lt;b&gt;&amp;.zip</td>');
+    expect(html).toContain('1 archivos · Se omitirá: 1');
+    expect(JSON.parse(renderReport(report, 'json'))).toEqual(report);
+  });
+});
@@ -0,0 +1,63 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { describe, expect, it } from 'vitest';
+import { CorruptArchiveError, UnsafeArchiveError } from '../src/services/archiveErrors';
+import { extractTarArchive, listTarEntries, testTarArchive } from '../src/services/tarExtractor';
+import { buildTar } from './helpers/archives';
+import { makeTempDir } from './helpers/tempDir';
+
+async function writeFixture(dir: string, name: string, content: Buffer): Promise<string> {
+  const filePath = path.join(dir, name);
+  await fs.writeFile(filePath, content);
+  return filePath;
+}
+
+describe('TAR reader', () => {
+  it('extracts plain and gzip archives', async () => {
+    const dir = await makeTempDir();
+    const tar = buildTar([{ name: 'pages/', type: '5' }, { name: 'pages/01.txt', data: 'uno' }]);
+    const tarPath = await writeFixture(dir, 'diario.tar', tar);
+    const gzipPath = await writeFixture(dir, 'diario.tar.gz', zlib.gzipSync(tar));
+
+    expect(await listTarEntries(tarPath)).toEqual(['pages/', 'pages/01.txt']);
+    await extractTarArchive(tarPath, path.join(dir, 'plain'), { gzip: false });
+    await extractTarArchive(gzipPath, path.join(dir, 'gzip'), { gzip: true });
+    expect(await fs.readFile(path.join(dir, 'plain', 'pages', '01.txt'), 'utf8')).toBe('uno');
+    expect(await fs.readFile(path.join(dir, 'gzip', 'pages', '01.txt'), 'utf8')).toBe('uno');
+    expect((await fs.stat(path.join(dir, 'plain', 'pages', '01.txt'))).mtime).toEqual(new Date(Date.UTC(1990, 0, 1)));
+  });
+
+  it('reports progress in bytes of the archive file', async () => {
+    const dir = await makeTempDir();
+    const gzipPath = await writeFixture(dir, 'diario.tgz', zlib.gzipSync(buildTar([{ name: 'a.txt', data: 'uno' }])));
+    const { size } = await fs.stat(gzipPath);
+    let last = { bytesDone: 0, bytesTotal: 0 };
+
+    await extractTarArchive(gzipPath, path.join(dir, 'out'), { gzip: true, onProgress: progress => { last = progress; } });
+    expect(last).toMatchObject({ bytesDone: size, bytesTotal: size });
+  });
+
+  it('rejects path traversal and links', async () => {
+    const dir = await makeTempDir();
+    const traversal = await writeFixture(dir, 'evil.tar', buildTar([{ name: '../evil.txt', data: 'evil' }]));
+    const link = await writeFixture(dir, 'link.tar', buildTar([{ name: 'link', type: '2', linkName: '/etc/passwd' }]));
+
+    await expect(extractTarArchive(traversal, path.join(dir, 'out'), { gzip: false })).rejects.toThrow(UnsafeArchiveError);
+    await expect(extractTarArchive(link, path.join(dir, 'out'), { gzip: false })).rejects.toThrow(UnsafeArchiveError);
+    expect(await fs.pathExists(path.join(dir, 'evil.txt'))).toBe(false);
+  });
+
+  it('reports a damaged header or a truncated archive as corrupt', async () => {
+    const dir = await makeTempDir();
+    const tar = buildTar([{ name: 'a.txt', data: 'contenido' }]);
+    tar[0] ^= 0xff;
+    const tarPath = await writeFixture(dir, 'damaged.tar', tar);
+
+    await expect(extractTarArchive(tarPath, path.join(dir, 'out'), { gzip: false })).rejects.toThrow(CorruptArchiveError);
+
+    const truncated = buildTar([{ name: 'a.txt', data: 'contenido '.repeat(100) }]).subarray(0, 600);
+    const truncatedPath = await writeFixture(dir, 'truncated.tar.gz', zlib.gzipSync(truncated).subarray(0, 100));
+    await expect(testTarArchive(truncatedPath, { gzip: true })).rejects.toThrow(CorruptArchiveError);
+  });
+});
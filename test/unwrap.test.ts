@@ -0,0 +1,39 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { describe, expect, it } from 'vitest';
+import { findContentRoot, planUnwrap } from '../src/services/unwrap';
+import { makeTempDir } from './helpers/tempDir';
+
+const NESTED = ['Diario/', 'Diario/1990/', 'Diario/1990/01.pdf', 'Diario/1990/02.pdf'];
+
+describe('unwrap plan', () => {
+  it('leaves the structure alone when off', () => {
+    expect(planUnwrap(NESTED, 'off')).toEqual({ unwrapped: [], topLevel: ['Diario'] });
+  });
+
+  it('drops one wrapper folder in single mode', () => {
+    expect(planUnwrap(NESTED, 'single')).toEqual({ unwrapped: ['Diario'], topLevel: ['1990'] });
+  });
+
+  it('keeps dropping lone folders in recursive mode', () => {
+    expect(planUnwrap(NESTED, 'recursive')).toEqual({ unwrapped: ['Diario', '1990'], topLevel: ['01.pdf', '02.pdf'] });
+  });
+
+  it('does not treat a lone file or an empty folder as a wrapper', () => {
+    expect(planUnwrap(['01.pdf'], 'recursive')).toEqual({ unwrapped: [], topLevel: ['01.pdf'] });
+    expect(planUnwrap(['Vacia/'], 'recursive')).toEqual({ unwrapped: [], topLevel: ['Vacia'] });
+    expect(planUnwrap(['Diario\\01.pdf', 'notas.txt'], 'single')).toEqual({ unwrapped: [], topLevel: ['Diario', 'notas.txt'] });
+  });
+});
+
+describe('content root', () => {
+  it('descends through lone folders on disk', async () => {
+    const dir = await makeTempDir();
+    await fs.outputFile(path.join(dir, 'Diario', '1990', '01.pdf'), 'x');
+    await fs.ensureDir(path.join(dir, 'Diario', '1990', 'Vacia'));
+
+    expect(await findContentRoot(dir, 'off')).toBe(dir);
+    expect(await findContentRoot(dir, 'single')).toBe(path.join(dir, 'Diario'));
+    expect(await findContentRoot(dir, 'recursive')).toBe(path.join(dir, 'Diario', '1990'));
+  });
+});
@@ -0,0 +1,115 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { describe, expect, it } from 'vitest';
+import { checkVolumeSetEnd, groupVolumes, rarHasNextVolume } from '../src/services/volumes';
+import { buildZip } from './helpers/archives';
+import { makeTempDir } from './helpers/tempDir';
+
+const RAR4_SIGNATURE = Buffer.from('Rar!\x1a\x07\x00', 'latin1');
+const RAR5_SIGNATURE = Buffer.from('Rar!\x1a\x07\x01\x00', 'latin1');
+
+// Only the signature and the end-of-archive block matter for telling whether a volume is the last one
+function rar5Volume(last: boolean): Buffer {
+  return Buffer.concat([RAR5_SIGNATURE, Buffer.alloc(64, 0xaa), Buffer.from([0, 0, 0, 0, 3, 5, 0, last ? 0 : 1])]);
+}
+
+function rar4Volume(last: boolean): Buffer {
+  return Buffer.concat([RAR4_SIGNATURE, Buffer.alloc(64, 0xaa), Buffer.from([0, 0, 0x7b, last ? 0 : 1, 0, 7, 0])]);
+}
+
+async function writeVolumes(dir: string, volumes: Record<string, Buffer>): Promise<string[]> {
+  const filePaths: string[] = [];
+  for (const [name, content] of Object.entries(volumes)) {
+    filePaths.push(path.join(dir, name));
+    await fs.writeFile(path.join(dir, name), content);
+  }
+  return filePaths;
+}
+
+async function checkSet(filePaths: string[]) {
+  const { sets } = groupVolumes(filePaths);
+  expect(sets).toHaveLength(1);
+  return checkVolumeSetEnd(sets[0]);
+}
+
+describe('volume sets', () => {
+  it('reports gaps between the volumes present', () => {
+    const { sets, singles } = groupVolumes(['/in/a.part1.rar', '/in/a.part3.rar', '/in/b.zip']);
+    expect(sets[0]).toMatchObject({ baseName: 'a', entryPath: '/in/a.part1.rar', missing: ['a.part2.rar'] });
+    expect(singles).toEqual(['/in/b.zip']);
+  });
+
+  it('puts the .rar head in front of legacy .rNN volumes', () => {
+    const { sets, singles } = groupVolumes(['/in/b.r01', '/in/b.rar', '/in/b.r00']);
+    expect(singles).toEqual([]);
+    expect(sets[0]).toMatchObject({
+      baseName: 'b',
+      entryPath: '/in/b.rar',
+      volumes: ['/in/b.rar', '/in/b.r00', '/in/b.r01'],
+      missing: []
+    });
+  });
+
+  it('opens spanned ZIPs from the .zip that closes them', () => {
+    const { sets } = groupVolumes(['/in/c.z01', '/in/c.z02', '/in/c.zip']);
+    expect(sets[0]).toMatchObject({ baseName: 'c', entryPath: '/in/c.zip', missing: [] });
+
+    const incomplete = groupVolumes(['/in/d.z01']).sets[0];
+    expect(incomplete).toMatchObject({ entryPath: '/in/d.zip', missing: ['d.zip'] });
+  });
+
+  it('groups raw splits of archives only', () => {
+    const { sets, singles } = groupVolumes(['/in/e.tar.gz.001', '/in/e.tar.gz.002', '/in/notas.txt.001']);
+    expect(sets).toHaveLength(1);
+    expect(sets[0]).toMatchObject({ baseName: 'e', entryPath: '/in/e.tar.gz.001' });
+    expect(singles).toEqual(['/in/notas.txt.001']);
+  });
+
+  it('reads the end-of-archive block of RAR volumes', async () => {
+    const dir = await makeTempDir();
+    const [rar5Next, rar5Last, rar4Next, rar4Last, other] = await writeVolumes(dir, {
+      'a.rar': rar5Volume(false),
+      'b.rar': rar5Volume(true),
+      'c.rar': rar4Volume(false),
+      'd.rar': rar4Volume(true),
+      'e.rar': Buffer.from('no es un rar')
+    });
+
+    expect(await rarHasNextVolume(rar5Next)).toBe(true);
+    expect(await rarHasNextVolume(rar5Last)).toBe(false);
+    expect(await rarHasNextVolume(rar4Next)).toBe(true);
+    expect(await rarHasNextVolume(rar4Last)).toBe(false);
+    expect(await rarHasNextVolume(other)).toBeNull();
+  });
+
+  it('reports a missing last RAR volume', async () => {
+    const dir = await makeTempDir();
+    const parts = await checkSet(await writeVolumes(dir, { 'a.part1.rar': rar5Volume(false), 'a.part2.rar': rar5Volume(false) }));
+    expect(parts.missing).toEqual(['a.part3.rar']);
+
+    const legacy = await checkSet(await writeVolumes(dir, { 'b.rar': rar4Volume(false), 'b.r00': rar4Volume(false) }));
+    expect(legacy.missing).toEqual(['b.r01']);
+
+    const complete = await checkSet(await writeVolumes(dir, { 'c.part1.rar': rar5Volume(false), 'c.part2.rar': rar5Volume(true) }));
+    expect(complete).toMatchObject({ missing: [], unconfirmedEnd: undefined });
+  });
+
+  it('reports missing .zNN volumes from the disk number of the .zip', async () => {
+    const dir = await makeTempDir();
+    const zip = buildZip([{ name: 'a.txt', data: 'uno' }]);
+    // Number of this disk, in the end of central directory record
+    zip.writeUInt16LE(3, zip.length - 22 + 4);
+
+    const set = await checkSet(await writeVolumes(dir, { 'a.z01': Buffer.alloc(10), 'a.z02': Buffer.alloc(10), 'a.zip': zip }));
+    expect(set.missing).toEqual(['a.z03']);
+  });
+
+  it('flags raw splits whose last volume may not be the end', async () => {
+    const dir = await makeTempDir();
+    const full = await checkSet(await writeVolumes(dir, { 'a.zip.001': Buffer.alloc(10), 'a.zip.002': Buffer.alloc(10) }));
+    expect(full.unconfirmedEnd).toBe(true);
+
+    const shorter = await checkSet(await writeVolumes(dir, { 'b.zip.001': Buffer.alloc(10), 'b.zip.002': Buffer.alloc(4) }));
+    expect(shorter.unconfirmedEnd).toBeUndefined();
+  });
+});
@@ -0,0 +1,67 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { describe, expect, it } from 'vitest';
+import { createJobWorkspace, findOrphanedWorkspaces, LEGACY_WORKSPACE_ID, removeOrphanedWorkspace } from '../src/services/workspace';
+import { makeTempDir } from './helpers/tempDir';
+
+// Far above any real pid, so the owner of a manifest that uses it is never alive
+const DEAD_PID = 2 ** 22 + 1;
+
+describe('job workspaces', () => {
+  it('never reports the workspaces of running jobs', async () => {
+    const root = await makeTempDir();
+    const workspace = await createJobWorkspace(root, '/in', ['a.zip']);
+
+    expect(await findOrphanedWorkspaces(root)).toEqual([]);
+    await workspace.dispose();
+    expect(await fs.pathExists(workspace.dir)).toBe(false);
+  });
+
+  it('reports the archives an interrupted job never finished', async () => {
+    const root = await makeTempDir();
+    const workspace = await createJobWorkspace(root, '/in', ['a.zip', 'b.zip', 'c.zip']);
+    await workspace.markCompleted('a.zip');
+    await fs.outputFile(path.join(workspace.dir, 'b', 'scan.pdf'), '12345');
+
+    // Simulates a crash: the manifest now belongs to a process that is gone
+    const manifestPath = path.join(workspace.dir, 'workspace.json');
+    await fs.writeJson(manifestPath, { ...await fs.readJson(manifestPath), pid: DEAD_PID });
+    const otherRoot = await makeTempDir();
+    await fs.copy(workspace.dir, path.join(otherRoot, path.basename(workspace.dir)));
+    await workspace.dispose();
+
+    const [orphan] = await findOrphanedWorkspaces(otherRoot);
+    expect(orphan).toMatchObject({ id: path.basename(workspace.dir), inputPath: '/in', pending: ['b.zip', 'c.zip'] });
+    expect(orphan.size).toBeGreaterThan(5);
+
+    await removeOrphanedWorkspace(orphan);
+    expect(await findOrphanedWorkspaces(otherRoot)).toEqual([]);
+  });
+
+  it('skips workspaces of other running instances', async () => {
+    const root = await makeTempDir();
+    await fs.outputJson(path.join(root, 'job-1-1', 'workspace.json'), {
+      pid: process.ppid,
+      startedAt: '2026-01-01T00:00:00.000Z',
+      inputPath: '/in',
+      archives: ['a.zip'],
+      completed: []
+    });
+
+    expect(await findOrphanedWorkspaces(root)).toEqual([]);
+  });
+
+  it('offers the old temp folder in Dropbox for cleanup', async () => {
+    const root = await makeTempDir();
+    const legacyDir = path.join(await makeTempDir(), 'temp');
+    await fs.outputFile(path.join(legacyDir, 'diario', 'scan.pdf'), 'x');
+
+    expect(await findOrphanedWorkspaces(path.join(root, 'no-existe'), legacyDir)).toEqual([{
+      id: LEGACY_WORKSPACE_ID,
+      path: legacyDir,
+      size: 1,
+      pending: ['diario'],
+      legacy: true
+    }]);
+  });
+});
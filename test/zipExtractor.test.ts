@@ -0,0 +1,117 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { describe, expect, it } from 'vitest';
+import { ArchivePasswordError, CorruptArchiveError, UnsafeArchiveError } from '../src/services/archiveErrors';
+import { extractZipArchive, probeZipIntegrity, readZipEntries, testZipArchive } from '../src/services/zipExtractor';
+import { buildZip } from './helpers/archives';
+import { makeTempDir } from './helpers/tempDir';
+
+async function writeFixture(dir: string, name: string, content: Buffer): Promise<string> {
+  const filePath = path.join(dir, name);
+  await fs.writeFile(filePath, content);
+  return filePath;
+}
+
+describe('ZIP reader', () => {
+  it('extracts stored and deflated entries with their folders', async () => {
+    const dir = await makeTempDir();
+    const zipPath = await writeFixture(dir, 'diario.zip', buildZip([
+      { name: 'pages/' },
+      { name: 'pages/01.txt', data: 'uno' },
+      { name: 'pages/02.txt', data: 'dos '.repeat(100), deflate: true },
+      { name: 'ñandú.txt', data: 'tres' }
+    ]));
+
+    await extractZipArchive(zipPath, path.join(dir, 'out'));
+    expect(await fs.readFile(path.join(dir, 'out', 'pages', '01.txt'), 'utf8')).toBe('uno');
+    expect(await fs.readFile(path.join(dir, 'out', 'pages', '02.txt'), 'utf8')).toBe('dos '.repeat(100));
+    expect(await fs.readFile(path.join(dir, 'out', 'ñandú.txt'), 'utf8')).toBe('tres');
+    // Archived modification times are kept for the "newer" conflict policy
+    expect((await fs.stat(path.join(dir, 'out', 'pages', '01.txt'))).mtime).toEqual(new Date(1990, 0, 1));
+  });
+
+  it('reports uncompressed bytes as entries are written', async () => {
+    const dir = await makeTempDir();
+    const zipPath = await writeFixture(dir, 'diario.zip', buildZip([
+      { name: 'a.txt', data: 'uno' },
+      { name: 'b.txt', data: 'dos '.repeat(100), deflate: true }
+    ]));
+    const updates: Array<{ bytesDone: number; bytesTotal: number; currentEntry?: string }> = [];
+
+    await extractZipArchive(zipPath, path.join(dir, 'out'), { onProgress: progress => updates.push(progress) });
+    expect(updates[0]).toEqual({ bytesDone: 3, bytesTotal: 403, currentEntry: 'a.txt' });
+    expect(updates[updates.length - 1]).toEqual({ bytesDone: 403, bytesTotal: 403, currentEntry: 'b.txt' });
+  });
+
+  it('reads sizes and offsets from ZIP64 records', async () => {
+    const dir = await makeTempDir();
+    const zipPath = await writeFixture(dir, 'zip64.zip', buildZip([
+      { name: 'a.txt', data: 'primero' },
+      { name: 'b.txt', data: 'segundo' }
+    ], { zip64: true }));
+
+    const entries = await readZipEntries(zipPath);
+    expect(entries.map(entry => [entry.fileName, entry.uncompressedSize])).toEqual([['a.txt', 7], ['b.txt', 7]]);
+    await extractZipArchive(zipPath, path.join(dir, 'out'));
+    expect(await fs.readFile(path.join(dir, 'out', 'b.txt'), 'utf8')).toBe('segundo');
+  });
+
+  it('rejects files that are not ZIP archives', async () => {
+    const dir = await makeTempDir();
+    const filePath = await writeFixture(dir, 'roto.zip', Buffer.from('no es un zip'));
+
+    await expect(readZipEntries(filePath)).rejects.toThrow('No es un archivo ZIP válido');
+  });
+
+  it('rejects path traversal before writing anything', async () => {
+    const dir = await makeTempDir();
+    const zipPath = await writeFixture(dir, 'evil.zip', buildZip([
+      { name: 'ok.txt', data: 'ok' },
+      { name: '../evil.txt', data: 'evil' }
+    ]));
+
+    await expect(extractZipArchive(zipPath, path.join(dir, 'out'))).rejects.toThrow(UnsafeArchiveError);
+    expect(await fs.pathExists(path.join(dir, 'evil.txt'))).toBe(false);
+    expect(await fs.pathExists(path.join(dir, 'out', 'ok.txt'))).toBe(false);
+  });
+
+  it('rejects symbolic links', async () => {
+    const dir = await makeTempDir();
+    const zipPath = await writeFixture(dir, 'link.zip', buildZip([{ name: 'link', data: '/etc/passwd', symlink: true }]));
+
+    await expect(extractZipArchive(zipPath, path.join(dir, 'out'))).rejects.toThrow(UnsafeArchiveError);
+  });
+
+  it('decrypts ZipCrypto entries with the right password only', async () => {
+    const dir = await makeTempDir();
+    const zipPath = await writeFixture(dir, 'secret.zip', buildZip([
+      { name: 'secret.txt', data: 'contenido', password: 'clave' },
+      { name: 'largo.txt', data: 'texto '.repeat(50), password: 'clave', deflate: true }
+    ]));
+
+    await expect(extractZipArchive(zipPath, path.join(dir, 'none'))).rejects.toMatchObject({ reason: 'required' });
+    await expect(extractZipArchive(zipPath, path.join(dir, 'wrong'), { password: 'otra' })).rejects.toThrow(ArchivePasswordError);
+
+    await extractZipArchive(zipPath, path.join(dir, 'out'), { password: 'clave' });
+    expect(await fs.readFile(path.join(dir, 'out', 'secret.txt'), 'utf8')).toBe('contenido');
+    expect(await fs.readFile(path.join(dir, 'out', 'largo.txt'), 'utf8')).toBe('texto '.repeat(50));
+  });
+
+  it('reports damaged data as corrupt', async () => {
+    const dir = await makeTempDir();
+    const content = buildZip([{ name: 'a.txt', data: 'contenido' }]);
+    content[30 + 'a.txt'.length] ^= 0xff;
+    const zipPath = await writeFixture(dir, 'damaged.zip', content);
+
+    await expect(testZipArchive(zipPath)).rejects.toThrow(CorruptArchiveError);
+    // The structure is intact, so only the full test notices
+    expect(await probeZipIntegrity(zipPath)).toBeNull();
+  });
+
+  it('flags truncated archives in the quick probe', async () => {
+    const dir = await makeTempDir();
+    const truncatedPath = await writeFixture(dir, 'truncated.zip', buildZip([{ name: 'a.txt', data: 'contenido' }]).subarray(0, 40));
+
+    expect(await probeZipIntegrity(truncatedPath)).toContain('No es un archivo ZIP válido');
+  });
+});
@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['test/**/*.test.ts'],
+    // The services log every file they parse; keep that output for failing tests only
+    silent: 'passed-only'
+  }
+});